@@ -1,6 +1,41 @@
 import { ABIDataTypes, BitcoinAbiTypes, OP_NET_ABI } from 'opnet';
 
-export const CollectionRegistryEvents = [];
+export const CollectionRegistryEvents = [
+    {
+        name: 'RoleGranted',
+        values: [
+            { name: 'role', type: ABIDataTypes.UINT8 },
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+            { name: 'sender', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'RoleRevoked',
+        values: [
+            { name: 'role', type: ABIDataTypes.UINT8 },
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+            { name: 'sender', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'AdminTransferStarted',
+        values: [
+            { name: 'currentAdmin', type: ABIDataTypes.ADDRESS },
+            { name: 'pendingAdmin', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'AdminTransferred',
+        values: [
+            { name: 'previousAdmin', type: ABIDataTypes.ADDRESS },
+            { name: 'newAdmin', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+];
 
 export const CollectionRegistryAbi = [
     {
@@ -39,6 +74,54 @@ export const CollectionRegistryAbi = [
         outputs: [{ name: 'collectionIdHash', type: ABIDataTypes.UINT256 }],
         type: BitcoinAbiTypes.Function,
     },
+    {
+        name: 'grantRole',
+        inputs: [
+            { name: 'role', type: ABIDataTypes.UINT8 },
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'revokeRole',
+        inputs: [
+            { name: 'role', type: ABIDataTypes.UINT8 },
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'hasRole',
+        inputs: [
+            { name: 'role', type: ABIDataTypes.UINT8 },
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [{ name: 'hasRole', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'transferAdmin',
+        inputs: [{ name: 'newAdmin', type: ABIDataTypes.ADDRESS }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'acceptAdmin',
+        inputs: [],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getAdmin',
+        inputs: [],
+        outputs: [
+            { name: 'admin', type: ABIDataTypes.ADDRESS },
+            { name: 'pendingAdmin', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
     ...CollectionRegistryEvents,
     ...OP_NET_ABI,
 ];
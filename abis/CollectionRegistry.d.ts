@@ -4,6 +4,24 @@ import { CallResult, OPNetEvent, IOP_NETContract } from 'opnet';
 // ------------------------------------------------------------------
 // Event Definitions
 // ------------------------------------------------------------------
+export type RoleGrantedEvent = {
+    readonly role: number;
+    readonly account: Address;
+    readonly sender: Address;
+};
+export type RoleRevokedEvent = {
+    readonly role: number;
+    readonly account: Address;
+    readonly sender: Address;
+};
+export type AdminTransferStartedEvent = {
+    readonly currentAdmin: Address;
+    readonly pendingAdmin: Address;
+};
+export type AdminTransferredEvent = {
+    readonly previousAdmin: Address;
+    readonly newAdmin: Address;
+};
 
 // ------------------------------------------------------------------
 // Call Results
@@ -59,6 +77,67 @@ export type GetCollectionAtIndex = CallResult<
     OPNetEvent<never>[]
 >;
 
+/**
+ * @description Represents the result of the grantRole function call.
+ */
+export type GrantRole = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<RoleGrantedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the revokeRole function call.
+ */
+export type RevokeRole = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<RoleRevokedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the hasRole function call.
+ */
+export type HasRole = CallResult<
+    {
+        hasRole: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the transferAdmin function call.
+ */
+export type TransferAdmin = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<AdminTransferStartedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the acceptAdmin function call.
+ */
+export type AcceptAdmin = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<AdminTransferredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getAdmin function call.
+ */
+export type GetAdmin = CallResult<
+    {
+        admin: Address;
+        pendingAdmin: Address;
+    },
+    OPNetEvent<never>[]
+>;
+
 // ------------------------------------------------------------------
 // ICollectionRegistry
 // ------------------------------------------------------------------
@@ -68,4 +147,10 @@ export interface ICollectionRegistry extends IOP_NETContract {
     getVault(collectionIdHash: bigint): Promise<GetVault>;
     getCollectionCount(): Promise<GetCollectionCount>;
     getCollectionAtIndex(index: bigint): Promise<GetCollectionAtIndex>;
+    grantRole(role: number, account: Address): Promise<GrantRole>;
+    revokeRole(role: number, account: Address): Promise<RevokeRole>;
+    hasRole(role: number, account: Address): Promise<HasRole>;
+    transferAdmin(newAdmin: Address): Promise<TransferAdmin>;
+    acceptAdmin(): Promise<AcceptAdmin>;
+    getAdmin(): Promise<GetAdmin>;
 }
@@ -1,6 +1,45 @@
 import { ABIDataTypes, BitcoinAbiTypes, OP_NET_ABI } from 'opnet';
 
 export const OrdinalsVaultEvents = [
+    {
+        name: 'BurnRecorded',
+        values: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'burner', type: ABIDataTypes.ADDRESS },
+            { name: 'nonce', type: ABIDataTypes.UINT256 },
+            { name: 'collectionIdHash', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'BurnQueuedForReview',
+        values: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'burner', type: ABIDataTypes.ADDRESS },
+            { name: 'nonce', type: ABIDataTypes.UINT256 },
+            { name: 'blockNumber', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'AttestationRootAccepted',
+        values: [
+            { name: 'root', type: ABIDataTypes.UINT256 },
+            { name: 'fromBlock', type: ABIDataTypes.UINT64 },
+            { name: 'toBlock', type: ABIDataTypes.UINT64 },
+            { name: 'deadline', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'AttestationRootRevoked',
+        values: [
+            { name: 'root', type: ABIDataTypes.UINT256 },
+            { name: 'revokedBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
     {
         name: 'Transferred',
         values: [
@@ -11,6 +50,351 @@ export const OrdinalsVaultEvents = [
         ],
         type: BitcoinAbiTypes.Event,
     },
+    {
+        name: 'Mint',
+        values: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'tokenId', type: ABIDataTypes.UINT256 },
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'MintRightTransferred',
+        values: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'previousBurner', type: ABIDataTypes.ADDRESS },
+            { name: 'newBurner', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'Burned',
+        values: [
+            { name: 'from', type: ABIDataTypes.ADDRESS },
+            { name: 'amount', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'RedemptionRequested',
+        values: [
+            { name: 'tokenId', type: ABIDataTypes.UINT256 },
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'requester', type: ABIDataTypes.ADDRESS },
+            { name: 'btcDestination', type: ABIDataTypes.STRING },
+            { name: 'deadlineBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'RedemptionCompleted',
+        values: [
+            { name: 'tokenId', type: ABIDataTypes.UINT256 },
+            { name: 'releaseTxid', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'RedemptionDisputed',
+        values: [
+            { name: 'tokenId', type: ABIDataTypes.UINT256 },
+            { name: 'requester', type: ABIDataTypes.ADDRESS },
+            { name: 'disputedAtBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'OracleRotationProposed',
+        values: [
+            { name: 'oldKeyHash', type: ABIDataTypes.UINT256 },
+            { name: 'newKeyHash', type: ABIDataTypes.UINT256 },
+            { name: 'submitBlock', type: ABIDataTypes.UINT64 },
+            { name: 'effectiveBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'OracleRotationApplied',
+        values: [
+            { name: 'oldKeyHash', type: ABIDataTypes.UINT256 },
+            { name: 'newKeyHash', type: ABIDataTypes.UINT256 },
+            { name: 'appliedAtBlock', type: ABIDataTypes.UINT64 },
+            { name: 'graceEndBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'OracleChanged',
+        values: [
+            { name: 'oldKeyHash', type: ABIDataTypes.UINT256 },
+            { name: 'newKeyHash', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'OracleRotationCancelled',
+        values: [
+            { name: 'oldKeyHash', type: ABIDataTypes.UINT256 },
+            { name: 'newKeyHash', type: ABIDataTypes.UINT256 },
+            { name: 'cancelledAtBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'OracleThresholdChanged',
+        values: [
+            { name: 'previousThreshold', type: ABIDataTypes.UINT32 },
+            { name: 'threshold', type: ABIDataTypes.UINT32 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'OracleThresholdProposed',
+        values: [
+            { name: 'threshold', type: ABIDataTypes.UINT32 },
+            { name: 'submitBlock', type: ABIDataTypes.UINT64 },
+            { name: 'effectiveBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'OracleThresholdCancelled',
+        values: [{ name: 'threshold', type: ABIDataTypes.UINT32 }],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'BurnAddressChangeProposed',
+        values: [
+            { name: 'burnAddress', type: ABIDataTypes.STRING },
+            { name: 'add', type: ABIDataTypes.BOOL },
+            { name: 'submitBlock', type: ABIDataTypes.UINT64 },
+            { name: 'effectiveBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'BurnAddressAdded',
+        values: [{ name: 'burnAddress', type: ABIDataTypes.STRING }],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'BurnAddressRetired',
+        values: [{ name: 'burnAddress', type: ABIDataTypes.STRING }],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'BurnAddressChangeCancelled',
+        values: [
+            { name: 'burnAddress', type: ABIDataTypes.STRING },
+            { name: 'cancelledAtBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'GuardianChanged',
+        values: [
+            { name: 'previousGuardian', type: ABIDataTypes.ADDRESS },
+            { name: 'newGuardian', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'Paused',
+        values: [
+            { name: 'flags', type: ABIDataTypes.UINT8 },
+            { name: 'pausedFlags', type: ABIDataTypes.UINT8 },
+            { name: 'unpauseBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'Unpaused',
+        values: [
+            { name: 'flags', type: ABIDataTypes.UINT8 },
+            { name: 'pausedFlags', type: ABIDataTypes.UINT8 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'AllowlistRootSet',
+        values: [{ name: 'root', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'ChallengePeriodUpdated',
+        values: [{ name: 'challengePeriod', type: ABIDataTypes.UINT64 }],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'BurnRevoked',
+        values: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'burner', type: ABIDataTypes.ADDRESS },
+            { name: 'nonce', type: ABIDataTypes.UINT256 },
+            { name: 'byGuardian', type: ABIDataTypes.BOOL },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'MintBudgetUpdated',
+        values: [
+            { name: 'maxBurns', type: ABIDataTypes.UINT32 },
+            { name: 'period', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'PendingBurnReleased',
+        values: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'burner', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'PendingBurnRejected',
+        values: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'burner', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'FeeConfigProposed',
+        values: [
+            { name: 'token', type: ABIDataTypes.ADDRESS },
+            { name: 'amount', type: ABIDataTypes.UINT256 },
+            { name: 'recipient', type: ABIDataTypes.ADDRESS },
+            { name: 'submitBlock', type: ABIDataTypes.UINT64 },
+            { name: 'effectiveBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'FeeConfigApplied',
+        values: [
+            { name: 'token', type: ABIDataTypes.ADDRESS },
+            { name: 'amount', type: ABIDataTypes.UINT256 },
+            { name: 'recipient', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'FeeConfigCancelled',
+        values: [{ name: 'blockNumber', type: ABIDataTypes.UINT64 }],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'FeeExemptionChanged',
+        values: [
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+            { name: 'exempt', type: ABIDataTypes.BOOL },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'ContentBaseURIChanged',
+        values: [
+            { name: 'previousURI', type: ABIDataTypes.STRING },
+            { name: 'newURI', type: ABIDataTypes.STRING },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'Approved',
+        values: [
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+            { name: 'spender', type: ABIDataTypes.ADDRESS },
+            { name: 'amount', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'ApprovedForAll',
+        values: [
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+            { name: 'operator', type: ABIDataTypes.ADDRESS },
+            { name: 'approved', type: ABIDataTypes.BOOL },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'DefaultRoyaltyChanged',
+        values: [
+            { name: 'receiver', type: ABIDataTypes.ADDRESS },
+            { name: 'basisPoints', type: ABIDataTypes.UINT16 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'TokenRoyaltyChanged',
+        values: [
+            { name: 'tokenId', type: ABIDataTypes.UINT256 },
+            { name: 'receiver', type: ABIDataTypes.ADDRESS },
+            { name: 'basisPoints', type: ABIDataTypes.UINT16 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'UpdateSubmitted',
+        values: [
+            { name: 'sourceAddress', type: ABIDataTypes.ADDRESS },
+            { name: 'submitBlock', type: ABIDataTypes.UINT64 },
+            { name: 'effectiveBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'UpdateApplied',
+        values: [
+            { name: 'sourceAddress', type: ABIDataTypes.ADDRESS },
+            { name: 'appliedAtBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'UpdateCancelled',
+        values: [
+            { name: 'sourceAddress', type: ABIDataTypes.ADDRESS },
+            { name: 'cancelledAtBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'RoleGranted',
+        values: [
+            { name: 'role', type: ABIDataTypes.UINT8 },
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+            { name: 'sender', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'RoleRevoked',
+        values: [
+            { name: 'role', type: ABIDataTypes.UINT8 },
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+            { name: 'sender', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'AdminTransferStarted',
+        values: [
+            { name: 'currentAdmin', type: ABIDataTypes.ADDRESS },
+            { name: 'pendingAdmin', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
+    {
+        name: 'AdminTransferred',
+        values: [
+            { name: 'previousAdmin', type: ABIDataTypes.ADDRESS },
+            { name: 'newAdmin', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Event,
+    },
 ];
 
 export const OrdinalsVaultAbi = [
@@ -29,23 +413,340 @@ export const OrdinalsVaultAbi = [
         type: BitcoinAbiTypes.Function,
     },
     {
-        name: 'mint',
-        inputs: [{ name: 'inscriptionId', type: ABIDataTypes.STRING }],
-        outputs: [{ name: 'tokenId', type: ABIDataTypes.UINT256 }],
-        type: BitcoinAbiTypes.Function,
-    },
-    {
-        name: 'setOracle',
-        inputs: [{ name: 'newKeyHash', type: ABIDataTypes.UINT256 }],
+        name: 'recordBurnWithAttestations',
+        inputs: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'burner', type: ABIDataTypes.ADDRESS },
+            { name: 'deadline', type: ABIDataTypes.UINT64 },
+            { name: 'nonce', type: ABIDataTypes.UINT256 },
+            { name: 'collectionIdHash', type: ABIDataTypes.UINT256 },
+            { name: 'oraclePublicKeys', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+            { name: 'oracleSigs', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+        ],
         outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
         type: BitcoinAbiTypes.Function,
     },
+    {
+        name: 'recordBurnWithAttestationV3',
+        inputs: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'burner', type: ABIDataTypes.ADDRESS },
+            { name: 'deadline', type: ABIDataTypes.UINT64 },
+            { name: 'nonce', type: ABIDataTypes.UINT256 },
+            { name: 'collectionIdHash', type: ABIDataTypes.UINT256 },
+            { name: 'burnAddressHash', type: ABIDataTypes.UINT256 },
+            { name: 'oraclePublicKeys', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+            { name: 'oracleSigs', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'recordBurnWithProvenance',
+        inputs: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'burner', type: ABIDataTypes.ADDRESS },
+            { name: 'deadline', type: ABIDataTypes.UINT64 },
+            { name: 'nonce', type: ABIDataTypes.UINT256 },
+            { name: 'collectionIdHash', type: ABIDataTypes.UINT256 },
+            { name: 'burnAddressHash', type: ABIDataTypes.UINT256 },
+            { name: 'burnTxid', type: ABIDataTypes.UINT256 },
+            { name: 'btcBlockHeight', type: ABIDataTypes.UINT64 },
+            { name: 'inscriptionNumber', type: ABIDataTypes.INT64 },
+            { name: 'contentType', type: ABIDataTypes.STRING },
+            { name: 'satNumber', type: ABIDataTypes.UINT64 },
+            { name: 'oraclePublicKeys', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+            { name: 'oracleSigs', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'recordBurnInTransaction',
+        inputs: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'outpointTxid', type: ABIDataTypes.UINT256 },
+            { name: 'outpointIndex', type: ABIDataTypes.UINT16 },
+            { name: 'deadline', type: ABIDataTypes.UINT64 },
+            { name: 'nonce', type: ABIDataTypes.UINT256 },
+            { name: 'collectionIdHash', type: ABIDataTypes.UINT256 },
+            { name: 'burnAddressHash', type: ABIDataTypes.UINT256 },
+            { name: 'oraclePublicKeys', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+            { name: 'oracleSigs', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'submitAttestationRoot',
+        inputs: [
+            { name: 'root', type: ABIDataTypes.UINT256 },
+            { name: 'fromBlock', type: ABIDataTypes.UINT64 },
+            { name: 'toBlock', type: ABIDataTypes.UINT64 },
+            { name: 'deadline', type: ABIDataTypes.UINT64 },
+            { name: 'oraclePublicKeys', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+            { name: 'oracleSigs', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'recordBurnWithProof',
+        inputs: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'burner', type: ABIDataTypes.ADDRESS },
+            { name: 'nonce', type: ABIDataTypes.UINT256 },
+            { name: 'collectionIdHash', type: ABIDataTypes.UINT256 },
+            { name: 'burnAddressHash', type: ABIDataTypes.UINT256 },
+            { name: 'root', type: ABIDataTypes.UINT256 },
+            { name: 'proof', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'revokeAttestationRoot',
+        inputs: [{ name: 'root', type: ABIDataTypes.UINT256 }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getAttestationRoot',
+        inputs: [{ name: 'root', type: ABIDataTypes.UINT256 }],
+        outputs: [
+            { name: 'accepted', type: ABIDataTypes.BOOL },
+            { name: 'fromBlock', type: ABIDataTypes.UINT64 },
+            { name: 'toBlock', type: ABIDataTypes.UINT64 },
+            { name: 'deadline', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'mint',
+        inputs: [{ name: 'inscriptionId', type: ABIDataTypes.STRING }],
+        outputs: [{ name: 'tokenId', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'mintTo',
+        inputs: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'recipient', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [{ name: 'tokenId', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'mintFor',
+        inputs: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'feeToken', type: ABIDataTypes.ADDRESS },
+            { name: 'fee', type: ABIDataTypes.UINT256 },
+            { name: 'deadline', type: ABIDataTypes.UINT64 },
+            { name: 'signature', type: ABIDataTypes.BYTES },
+        ],
+        outputs: [{ name: 'tokenId', type: ABIDataTypes.UINT256 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'transferMintRight',
+        inputs: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'newBurner', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'transferMintRightBySignature',
+        inputs: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'newBurner', type: ABIDataTypes.ADDRESS },
+            { name: 'deadline', type: ABIDataTypes.UINT64 },
+            { name: 'signature', type: ABIDataTypes.BYTES },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'requestRedemption',
+        inputs: [
+            { name: 'tokenId', type: ABIDataTypes.UINT256 },
+            { name: 'btcDestination', type: ABIDataTypes.STRING },
+        ],
+        outputs: [{ name: 'deadlineBlock', type: ABIDataTypes.UINT64 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'confirmRedemption',
+        inputs: [
+            { name: 'tokenId', type: ABIDataTypes.UINT256 },
+            { name: 'releaseTxid', type: ABIDataTypes.UINT256 },
+            { name: 'oraclePublicKeys', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+            { name: 'oracleSigs', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'disputeRedemption',
+        inputs: [{ name: 'tokenId', type: ABIDataTypes.UINT256 }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getRedemption',
+        inputs: [{ name: 'tokenId', type: ABIDataTypes.UINT256 }],
+        outputs: [
+            { name: 'status', type: ABIDataTypes.UINT8 },
+            { name: 'requester', type: ABIDataTypes.ADDRESS },
+            { name: 'btcDestination', type: ABIDataTypes.STRING },
+            { name: 'requestBlock', type: ABIDataTypes.UINT64 },
+            { name: 'releaseTxid', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getVaultMode',
+        inputs: [],
+        outputs: [{ name: 'vaultMode', type: ABIDataTypes.UINT8 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getTokenIdMode',
+        inputs: [],
+        outputs: [{ name: 'tokenIdMode', type: ABIDataTypes.UINT8 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getSignaturePolicy',
+        inputs: [],
+        outputs: [{ name: 'signaturePolicy', type: ABIDataTypes.UINT8 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'proposeOracleRotation',
+        inputs: [
+            { name: 'oldKeyHash', type: ABIDataTypes.UINT256 },
+            { name: 'newKeyHash', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [{ name: 'effectiveBlock', type: ABIDataTypes.UINT64 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'applyOracleRotation',
+        inputs: [{ name: 'newKeyHash', type: ABIDataTypes.UINT256 }],
+        outputs: [{ name: 'graceEndBlock', type: ABIDataTypes.UINT64 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'cancelOracleRotation',
+        inputs: [],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setOracleRotationParams',
+        inputs: [
+            { name: 'rotationDelay', type: ABIDataTypes.UINT64 },
+            { name: 'gracePeriod', type: ABIDataTypes.UINT64 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getOracleRotation',
+        inputs: [],
+        outputs: [
+            { name: 'pendingOldKeyHash', type: ABIDataTypes.UINT256 },
+            { name: 'pendingNewKeyHash', type: ABIDataTypes.UINT256 },
+            { name: 'effectiveBlock', type: ABIDataTypes.UINT64 },
+            { name: 'retiredKeyHash', type: ABIDataTypes.UINT256 },
+            { name: 'graceEndBlock', type: ABIDataTypes.UINT64 },
+            { name: 'rotationDelay', type: ABIDataTypes.UINT64 },
+            { name: 'gracePeriod', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'removeOracle',
+        inputs: [{ name: 'keyHash', type: ABIDataTypes.UINT256 }],
+        outputs: [{ name: 'effectiveBlock', type: ABIDataTypes.UINT64 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setOracleThreshold',
+        inputs: [{ name: 'threshold', type: ABIDataTypes.UINT32 }],
+        outputs: [{ name: 'effectiveBlock', type: ABIDataTypes.UINT64 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'applyOracleThreshold',
+        inputs: [{ name: 'threshold', type: ABIDataTypes.UINT32 }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'cancelOracleThreshold',
+        inputs: [],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getPendingOracleThreshold',
+        inputs: [],
+        outputs: [
+            { name: 'threshold', type: ABIDataTypes.UINT32 },
+            { name: 'effectiveBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getOracles',
+        inputs: [],
+        outputs: [
+            { name: 'threshold', type: ABIDataTypes.UINT32 },
+            { name: 'keyHashes', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'isOracle',
+        inputs: [{ name: 'keyHash', type: ABIDataTypes.UINT256 }],
+        outputs: [{ name: 'registered', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
     {
         name: 'getBurnStatus',
         inputs: [{ name: 'inscriptionId', type: ABIDataTypes.STRING }],
         outputs: [
             { name: 'verified', type: ABIDataTypes.BOOL },
             { name: 'minted', type: ABIDataTypes.BOOL },
+            { name: 'revoked', type: ABIDataTypes.BOOL },
+            { name: 'nonce', type: ABIDataTypes.UINT256 },
+            { name: 'mintableAtBlock', type: ABIDataTypes.UINT64 },
+            { name: 'burner', type: ABIDataTypes.ADDRESS },
+            { name: 'mintRightNonce', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getNonceStatus',
+        inputs: [{ name: 'nonce', type: ABIDataTypes.UINT256 }],
+        outputs: [{ name: 'status', type: ABIDataTypes.UINT8 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getProvenance',
+        inputs: [{ name: 'tokenId', type: ABIDataTypes.UINT256 }],
+        outputs: [
+            { name: 'hasProvenance', type: ABIDataTypes.BOOL },
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'burnTxid', type: ABIDataTypes.UINT256 },
+            { name: 'btcBlockHeight', type: ABIDataTypes.UINT64 },
+            { name: 'inscriptionNumber', type: ABIDataTypes.INT64 },
+            { name: 'contentType', type: ABIDataTypes.STRING },
+            { name: 'satNumber', type: ABIDataTypes.UINT64 },
         ],
         type: BitcoinAbiTypes.Function,
     },
@@ -55,12 +756,423 @@ export const OrdinalsVaultAbi = [
         outputs: [{ name: 'burnAddress', type: ABIDataTypes.STRING }],
         type: BitcoinAbiTypes.Function,
     },
+    {
+        name: 'proposeBurnAddressChange',
+        inputs: [
+            { name: 'burnAddress', type: ABIDataTypes.STRING },
+            { name: 'add', type: ABIDataTypes.BOOL },
+        ],
+        outputs: [{ name: 'effectiveBlock', type: ABIDataTypes.UINT64 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'applyBurnAddressChange',
+        inputs: [{ name: 'burnAddress', type: ABIDataTypes.STRING }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'cancelBurnAddressChange',
+        inputs: [{ name: 'burnAddress', type: ABIDataTypes.STRING }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getBurnAddresses',
+        inputs: [],
+        outputs: [{ name: 'burnAddresses', type: ABIDataTypes.ARRAY_OF_STRING }],
+        type: BitcoinAbiTypes.Function,
+    },
     {
         name: 'getCollectionId',
         inputs: [],
         outputs: [{ name: 'collectionIdHash', type: ABIDataTypes.UINT256 }],
         type: BitcoinAbiTypes.Function,
     },
+    {
+        name: 'getParentInscriptions',
+        inputs: [],
+        outputs: [{ name: 'parentInscriptionIds', type: ABIDataTypes.ARRAY_OF_STRING }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getTokenParent',
+        inputs: [{ name: 'tokenId', type: ABIDataTypes.UINT256 }],
+        outputs: [{ name: 'parentInscriptionId', type: ABIDataTypes.STRING }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setGuardian',
+        inputs: [{ name: 'guardian', type: ABIDataTypes.ADDRESS }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'pause',
+        inputs: [{ name: 'flags', type: ABIDataTypes.UINT8 }],
+        outputs: [{ name: 'unpauseBlock', type: ABIDataTypes.UINT64 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'unpause',
+        inputs: [{ name: 'flags', type: ABIDataTypes.UINT8 }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getPauseState',
+        inputs: [],
+        outputs: [
+            { name: 'guardian', type: ABIDataTypes.ADDRESS },
+            { name: 'attestPaused', type: ABIDataTypes.BOOL },
+            { name: 'mintPaused', type: ABIDataTypes.BOOL },
+            { name: 'transfersPaused', type: ABIDataTypes.BOOL },
+            { name: 'pausedAtBlock', type: ABIDataTypes.UINT64 },
+            { name: 'unpauseBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setAllowlistRoot',
+        inputs: [{ name: 'root', type: ABIDataTypes.UINT256 }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'proveAllowlistMembership',
+        inputs: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'index', type: ABIDataTypes.UINT32 },
+            { name: 'proof', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getAllowlistStatus',
+        inputs: [{ name: 'inscriptionId', type: ABIDataTypes.STRING }],
+        outputs: [
+            { name: 'root', type: ABIDataTypes.UINT256 },
+            { name: 'allowed', type: ABIDataTypes.BOOL },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setChallengePeriod',
+        inputs: [{ name: 'challengePeriod', type: ABIDataTypes.UINT64 }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getChallengePeriod',
+        inputs: [],
+        outputs: [{ name: 'challengePeriod', type: ABIDataTypes.UINT64 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'revokeBurn',
+        inputs: [{ name: 'inscriptionId', type: ABIDataTypes.STRING }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'revokeBurnWithAttestation',
+        inputs: [
+            { name: 'inscriptionId', type: ABIDataTypes.STRING },
+            { name: 'nonce', type: ABIDataTypes.UINT256 },
+            { name: 'deadline', type: ABIDataTypes.UINT64 },
+            { name: 'oraclePublicKeys', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+            { name: 'oracleSigs', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setMintBudget',
+        inputs: [
+            { name: 'maxBurns', type: ABIDataTypes.UINT32 },
+            { name: 'period', type: ABIDataTypes.UINT64 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getMintBudget',
+        inputs: [],
+        outputs: [
+            { name: 'maxBurns', type: ABIDataTypes.UINT32 },
+            { name: 'period', type: ABIDataTypes.UINT64 },
+            { name: 'used', type: ABIDataTypes.UINT32 },
+            { name: 'remaining', type: ABIDataTypes.UINT32 },
+            { name: 'windowEndBlock', type: ABIDataTypes.UINT64 },
+            { name: 'pendingReview', type: ABIDataTypes.UINT32 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getPendingBurn',
+        inputs: [{ name: 'inscriptionId', type: ABIDataTypes.STRING }],
+        outputs: [
+            { name: 'pending', type: ABIDataTypes.BOOL },
+            { name: 'burner', type: ABIDataTypes.ADDRESS },
+            { name: 'queuedBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'releasePendingBurn',
+        inputs: [{ name: 'inscriptionId', type: ABIDataTypes.STRING }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'rejectPendingBurn',
+        inputs: [{ name: 'inscriptionId', type: ABIDataTypes.STRING }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getBridgeStats',
+        inputs: [],
+        outputs: [
+            { name: 'burnsRecorded', type: ABIDataTypes.UINT256 },
+            { name: 'tokensMinted', type: ABIDataTypes.UINT256 },
+            { name: 'burnsRevoked', type: ABIDataTypes.UINT256 },
+            { name: 'pendingMints', type: ABIDataTypes.UINT256 },
+            { name: 'heldForReview', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getBurnerStats',
+        inputs: [{ name: 'burner', type: ABIDataTypes.ADDRESS }],
+        outputs: [
+            { name: 'recorded', type: ABIDataTypes.UINT256 },
+            { name: 'minted', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'proposeFeeConfig',
+        inputs: [
+            { name: 'token', type: ABIDataTypes.ADDRESS },
+            { name: 'amount', type: ABIDataTypes.UINT256 },
+            { name: 'recipient', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [{ name: 'effectiveBlock', type: ABIDataTypes.UINT64 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'applyFeeConfig',
+        inputs: [],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'cancelFeeConfig',
+        inputs: [],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setFeeExempt',
+        inputs: [
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+            { name: 'exempt', type: ABIDataTypes.BOOL },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getFeeConfig',
+        inputs: [],
+        outputs: [
+            { name: 'token', type: ABIDataTypes.ADDRESS },
+            { name: 'amount', type: ABIDataTypes.UINT256 },
+            { name: 'recipient', type: ABIDataTypes.ADDRESS },
+            { name: 'pendingToken', type: ABIDataTypes.ADDRESS },
+            { name: 'pendingAmount', type: ABIDataTypes.UINT256 },
+            { name: 'pendingRecipient', type: ABIDataTypes.ADDRESS },
+            { name: 'pendingEffectiveBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'isFeeExempt',
+        inputs: [{ name: 'account', type: ABIDataTypes.ADDRESS }],
+        outputs: [{ name: 'exempt', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setContentBaseURI',
+        inputs: [{ name: 'contentBaseURI', type: ABIDataTypes.STRING }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getContentBaseURI',
+        inputs: [],
+        outputs: [{ name: 'contentBaseURI', type: ABIDataTypes.STRING }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'transferBySignature',
+        inputs: [
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+            { name: 'to', type: ABIDataTypes.ADDRESS },
+            { name: 'tokenId', type: ABIDataTypes.UINT256 },
+            { name: 'deadline', type: ABIDataTypes.UINT64 },
+            { name: 'signature', type: ABIDataTypes.BYTES },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'approveByMLDSASignature',
+        inputs: [
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+            { name: 'spender', type: ABIDataTypes.ADDRESS },
+            { name: 'tokenId', type: ABIDataTypes.UINT256 },
+            { name: 'deadline', type: ABIDataTypes.UINT64 },
+            { name: 'signature', type: ABIDataTypes.BYTES },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setApprovalForAllByMLDSASignature',
+        inputs: [
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+            { name: 'operator', type: ABIDataTypes.ADDRESS },
+            { name: 'approved', type: ABIDataTypes.BOOL },
+            { name: 'deadline', type: ABIDataTypes.UINT64 },
+            { name: 'signature', type: ABIDataTypes.BYTES },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setDefaultRoyalty',
+        inputs: [
+            { name: 'receiver', type: ABIDataTypes.ADDRESS },
+            { name: 'basisPoints', type: ABIDataTypes.UINT16 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'setTokenRoyalty',
+        inputs: [
+            { name: 'tokenId', type: ABIDataTypes.UINT256 },
+            { name: 'receiver', type: ABIDataTypes.ADDRESS },
+            { name: 'basisPoints', type: ABIDataTypes.UINT16 },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'royaltyInfo',
+        inputs: [
+            { name: 'tokenId', type: ABIDataTypes.UINT256 },
+            { name: 'salePrice', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'receiver', type: ABIDataTypes.ADDRESS },
+            { name: 'royaltyAmount', type: ABIDataTypes.UINT256 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'submitUpdate',
+        inputs: [{ name: 'sourceAddress', type: ABIDataTypes.ADDRESS }],
+        outputs: [],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'applyUpdate',
+        inputs: [
+            { name: 'sourceAddress', type: ABIDataTypes.ADDRESS },
+            { name: 'updateCalldata', type: ABIDataTypes.BYTES },
+        ],
+        outputs: [],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'cancelUpdate',
+        inputs: [],
+        outputs: [],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'pendingUpdate',
+        inputs: [],
+        outputs: [
+            { name: 'sourceAddress', type: ABIDataTypes.ADDRESS },
+            { name: 'submitBlock', type: ABIDataTypes.UINT64 },
+            { name: 'effectiveBlock', type: ABIDataTypes.UINT64 },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'updateDelay',
+        inputs: [],
+        outputs: [{ name: 'updateDelay', type: ABIDataTypes.UINT64 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getStorageVersion',
+        inputs: [],
+        outputs: [{ name: 'storageVersion', type: ABIDataTypes.UINT32 }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'grantRole',
+        inputs: [
+            { name: 'role', type: ABIDataTypes.UINT8 },
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'revokeRole',
+        inputs: [
+            { name: 'role', type: ABIDataTypes.UINT8 },
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'hasRole',
+        inputs: [
+            { name: 'role', type: ABIDataTypes.UINT8 },
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [{ name: 'hasRole', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'transferAdmin',
+        inputs: [{ name: 'newAdmin', type: ABIDataTypes.ADDRESS }],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'acceptAdmin',
+        inputs: [],
+        outputs: [{ name: 'success', type: ABIDataTypes.BOOL }],
+        type: BitcoinAbiTypes.Function,
+    },
+    {
+        name: 'getAdmin',
+        inputs: [],
+        outputs: [
+            { name: 'admin', type: ABIDataTypes.ADDRESS },
+            { name: 'pendingAdmin', type: ABIDataTypes.ADDRESS },
+        ],
+        type: BitcoinAbiTypes.Function,
+    },
     ...OrdinalsVaultEvents,
     ...OP_NET_ABI,
 ];
@@ -4,74 +4,1145 @@ import { CallResult, OPNetEvent, IOP_NETContract } from 'opnet';
 // ------------------------------------------------------------------
 // Event Definitions
 // ------------------------------------------------------------------
+export type BurnRecordedEvent = {
+    readonly inscriptionId: string;
+    readonly burner: Address;
+    readonly nonce: bigint;
+    readonly collectionIdHash: bigint;
+    readonly blockNumber: bigint;
+};
+export type BurnQueuedForReviewEvent = {
+    readonly inscriptionId: string;
+    readonly burner: Address;
+    readonly nonce: bigint;
+    readonly blockNumber: bigint;
+};
+export type AttestationRootAcceptedEvent = {
+    readonly root: bigint;
+    readonly fromBlock: bigint;
+    readonly toBlock: bigint;
+    readonly deadline: bigint;
+};
+export type AttestationRootRevokedEvent = {
+    readonly root: bigint;
+    readonly revokedBlock: bigint;
+};
 export type TransferredEvent = {
     readonly operator: Address;
     readonly from: Address;
     readonly to: Address;
     readonly amount: bigint;
 };
+export type MintEvent = {
+    readonly inscriptionId: string;
+    readonly tokenId: bigint;
+    readonly owner: Address;
+};
+export type MintRightTransferredEvent = {
+    readonly inscriptionId: string;
+    readonly previousBurner: Address;
+    readonly newBurner: Address;
+};
+export type BurnedEvent = {
+    readonly from: Address;
+    readonly amount: bigint;
+};
+export type RedemptionRequestedEvent = {
+    readonly tokenId: bigint;
+    readonly inscriptionId: string;
+    readonly requester: Address;
+    readonly btcDestination: string;
+    readonly deadlineBlock: bigint;
+};
+export type RedemptionCompletedEvent = {
+    readonly tokenId: bigint;
+    readonly releaseTxid: bigint;
+};
+export type RedemptionDisputedEvent = {
+    readonly tokenId: bigint;
+    readonly requester: Address;
+    readonly disputedAtBlock: bigint;
+};
+export type OracleRotationProposedEvent = {
+    readonly oldKeyHash: bigint;
+    readonly newKeyHash: bigint;
+    readonly submitBlock: bigint;
+    readonly effectiveBlock: bigint;
+};
+export type OracleRotationAppliedEvent = {
+    readonly oldKeyHash: bigint;
+    readonly newKeyHash: bigint;
+    readonly appliedAtBlock: bigint;
+    readonly graceEndBlock: bigint;
+};
+export type OracleChangedEvent = {
+    readonly oldKeyHash: bigint;
+    readonly newKeyHash: bigint;
+};
+export type OracleRotationCancelledEvent = {
+    readonly oldKeyHash: bigint;
+    readonly newKeyHash: bigint;
+    readonly cancelledAtBlock: bigint;
+};
+export type OracleThresholdChangedEvent = {
+    readonly previousThreshold: number;
+    readonly threshold: number;
+};
+export type OracleThresholdProposedEvent = {
+    readonly threshold: number;
+    readonly submitBlock: bigint;
+    readonly effectiveBlock: bigint;
+};
+export type OracleThresholdCancelledEvent = {
+    readonly threshold: number;
+};
+export type BurnAddressChangeProposedEvent = {
+    readonly burnAddress: string;
+    readonly add: boolean;
+    readonly submitBlock: bigint;
+    readonly effectiveBlock: bigint;
+};
+export type BurnAddressAddedEvent = {
+    readonly burnAddress: string;
+};
+export type BurnAddressRetiredEvent = {
+    readonly burnAddress: string;
+};
+export type BurnAddressChangeCancelledEvent = {
+    readonly burnAddress: string;
+    readonly cancelledAtBlock: bigint;
+};
+export type GuardianChangedEvent = {
+    readonly previousGuardian: Address;
+    readonly newGuardian: Address;
+};
+export type PausedEvent = {
+    readonly flags: number;
+    readonly pausedFlags: number;
+    readonly unpauseBlock: bigint;
+};
+export type UnpausedEvent = {
+    readonly flags: number;
+    readonly pausedFlags: number;
+};
+export type AllowlistRootSetEvent = {
+    readonly root: bigint;
+};
+export type ChallengePeriodUpdatedEvent = {
+    readonly challengePeriod: bigint;
+};
+export type BurnRevokedEvent = {
+    readonly inscriptionId: string;
+    readonly burner: Address;
+    readonly nonce: bigint;
+    readonly byGuardian: boolean;
+};
+export type MintBudgetUpdatedEvent = {
+    readonly maxBurns: number;
+    readonly period: bigint;
+};
+export type PendingBurnReleasedEvent = {
+    readonly inscriptionId: string;
+    readonly burner: Address;
+};
+export type PendingBurnRejectedEvent = {
+    readonly inscriptionId: string;
+    readonly burner: Address;
+};
+export type FeeConfigProposedEvent = {
+    readonly token: Address;
+    readonly amount: bigint;
+    readonly recipient: Address;
+    readonly submitBlock: bigint;
+    readonly effectiveBlock: bigint;
+};
+export type FeeConfigAppliedEvent = {
+    readonly token: Address;
+    readonly amount: bigint;
+    readonly recipient: Address;
+};
+export type FeeConfigCancelledEvent = {
+    readonly blockNumber: bigint;
+};
+export type FeeExemptionChangedEvent = {
+    readonly account: Address;
+    readonly exempt: boolean;
+};
+export type ContentBaseURIChangedEvent = {
+    readonly previousURI: string;
+    readonly newURI: string;
+};
+export type ApprovedEvent = {
+    readonly owner: Address;
+    readonly spender: Address;
+    readonly amount: bigint;
+};
+export type ApprovedForAllEvent = {
+    readonly account: Address;
+    readonly operator: Address;
+    readonly approved: boolean;
+};
+export type DefaultRoyaltyChangedEvent = {
+    readonly receiver: Address;
+    readonly basisPoints: number;
+};
+export type TokenRoyaltyChangedEvent = {
+    readonly tokenId: bigint;
+    readonly receiver: Address;
+    readonly basisPoints: number;
+};
+export type UpdateSubmittedEvent = {
+    readonly sourceAddress: Address;
+    readonly submitBlock: bigint;
+    readonly effectiveBlock: bigint;
+};
+export type UpdateAppliedEvent = {
+    readonly sourceAddress: Address;
+    readonly appliedAtBlock: bigint;
+};
+export type UpdateCancelledEvent = {
+    readonly sourceAddress: Address;
+    readonly cancelledAtBlock: bigint;
+};
+export type RoleGrantedEvent = {
+    readonly role: number;
+    readonly account: Address;
+    readonly sender: Address;
+};
+export type RoleRevokedEvent = {
+    readonly role: number;
+    readonly account: Address;
+    readonly sender: Address;
+};
+export type AdminTransferStartedEvent = {
+    readonly currentAdmin: Address;
+    readonly pendingAdmin: Address;
+};
+export type AdminTransferredEvent = {
+    readonly previousAdmin: Address;
+    readonly newAdmin: Address;
+};
+
+// ------------------------------------------------------------------
+// Call Results
+// ------------------------------------------------------------------
+
+/**
+ * @description Represents the result of the recordBurnWithAttestation function call.
+ */
+export type RecordBurnWithAttestation = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<BurnRecordedEvent | BurnQueuedForReviewEvent>[]
+>;
+
+/**
+ * @description Represents the result of the recordBurnWithAttestations function call.
+ */
+export type RecordBurnWithAttestations = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<BurnRecordedEvent | BurnQueuedForReviewEvent>[]
+>;
+
+/**
+ * @description Represents the result of the recordBurnWithAttestationV3 function call.
+ */
+export type RecordBurnWithAttestationV3 = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<BurnRecordedEvent | BurnQueuedForReviewEvent>[]
+>;
+
+/**
+ * @description Represents the result of the recordBurnWithProvenance function call.
+ */
+export type RecordBurnWithProvenance = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<BurnRecordedEvent | BurnQueuedForReviewEvent>[]
+>;
+
+/**
+ * @description Represents the result of the recordBurnInTransaction function call.
+ */
+export type RecordBurnInTransaction = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<BurnRecordedEvent | BurnQueuedForReviewEvent>[]
+>;
+
+/**
+ * @description Represents the result of the submitAttestationRoot function call.
+ */
+export type SubmitAttestationRoot = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<AttestationRootAcceptedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the recordBurnWithProof function call.
+ */
+export type RecordBurnWithProof = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<BurnRecordedEvent | BurnQueuedForReviewEvent>[]
+>;
+
+/**
+ * @description Represents the result of the revokeAttestationRoot function call.
+ */
+export type RevokeAttestationRoot = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<AttestationRootRevokedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getAttestationRoot function call.
+ */
+export type GetAttestationRoot = CallResult<
+    {
+        accepted: boolean;
+        fromBlock: bigint;
+        toBlock: bigint;
+        deadline: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the mint function call.
+ */
+export type Mint = CallResult<
+    {
+        tokenId: bigint;
+    },
+    OPNetEvent<TransferredEvent | MintEvent>[]
+>;
+
+/**
+ * @description Represents the result of the mintTo function call.
+ */
+export type MintTo = CallResult<
+    {
+        tokenId: bigint;
+    },
+    OPNetEvent<TransferredEvent | MintEvent>[]
+>;
+
+/**
+ * @description Represents the result of the mintFor function call.
+ */
+export type MintFor = CallResult<
+    {
+        tokenId: bigint;
+    },
+    OPNetEvent<TransferredEvent | MintEvent>[]
+>;
+
+/**
+ * @description Represents the result of the transferMintRight function call.
+ */
+export type TransferMintRight = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<MintRightTransferredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the transferMintRightBySignature function call.
+ */
+export type TransferMintRightBySignature = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<MintRightTransferredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the requestRedemption function call.
+ */
+export type RequestRedemption = CallResult<
+    {
+        deadlineBlock: bigint;
+    },
+    OPNetEvent<BurnedEvent | RedemptionRequestedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the confirmRedemption function call.
+ */
+export type ConfirmRedemption = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<RedemptionCompletedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the disputeRedemption function call.
+ */
+export type DisputeRedemption = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<RedemptionDisputedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getRedemption function call.
+ */
+export type GetRedemption = CallResult<
+    {
+        status: number;
+        requester: Address;
+        btcDestination: string;
+        requestBlock: bigint;
+        releaseTxid: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getVaultMode function call.
+ */
+export type GetVaultMode = CallResult<
+    {
+        vaultMode: number;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getTokenIdMode function call.
+ */
+export type GetTokenIdMode = CallResult<
+    {
+        tokenIdMode: number;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getSignaturePolicy function call.
+ */
+export type GetSignaturePolicy = CallResult<
+    {
+        signaturePolicy: number;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the proposeOracleRotation function call.
+ */
+export type ProposeOracleRotation = CallResult<
+    {
+        effectiveBlock: bigint;
+    },
+    OPNetEvent<OracleRotationProposedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the applyOracleRotation function call.
+ */
+export type ApplyOracleRotation = CallResult<
+    {
+        graceEndBlock: bigint;
+    },
+    OPNetEvent<OracleRotationAppliedEvent | OracleChangedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the cancelOracleRotation function call.
+ */
+export type CancelOracleRotation = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<OracleRotationCancelledEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setOracleRotationParams function call.
+ */
+export type SetOracleRotationParams = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getOracleRotation function call.
+ */
+export type GetOracleRotation = CallResult<
+    {
+        pendingOldKeyHash: bigint;
+        pendingNewKeyHash: bigint;
+        effectiveBlock: bigint;
+        retiredKeyHash: bigint;
+        graceEndBlock: bigint;
+        rotationDelay: bigint;
+        gracePeriod: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the removeOracle function call.
+ */
+export type RemoveOracle = CallResult<
+    {
+        effectiveBlock: bigint;
+    },
+    OPNetEvent<OracleChangedEvent | OracleRotationProposedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setOracleThreshold function call.
+ */
+export type SetOracleThreshold = CallResult<
+    {
+        effectiveBlock: bigint;
+    },
+    OPNetEvent<OracleThresholdChangedEvent | OracleThresholdProposedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the applyOracleThreshold function call.
+ */
+export type ApplyOracleThreshold = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<OracleThresholdChangedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the cancelOracleThreshold function call.
+ */
+export type CancelOracleThreshold = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<OracleThresholdCancelledEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getPendingOracleThreshold function call.
+ */
+export type GetPendingOracleThreshold = CallResult<
+    {
+        threshold: number;
+        effectiveBlock: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getOracles function call.
+ */
+export type GetOracles = CallResult<
+    {
+        threshold: number;
+        keyHashes: bigint[];
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the isOracle function call.
+ */
+export type IsOracle = CallResult<
+    {
+        registered: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getBurnStatus function call.
+ */
+export type GetBurnStatus = CallResult<
+    {
+        verified: boolean;
+        minted: boolean;
+        revoked: boolean;
+        nonce: bigint;
+        mintableAtBlock: bigint;
+        burner: Address;
+        mintRightNonce: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getNonceStatus function call.
+ */
+export type GetNonceStatus = CallResult<
+    {
+        status: number;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getProvenance function call.
+ */
+export type GetProvenance = CallResult<
+    {
+        hasProvenance: boolean;
+        inscriptionId: string;
+        burnTxid: bigint;
+        btcBlockHeight: bigint;
+        inscriptionNumber: bigint;
+        contentType: string;
+        satNumber: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getBurnAddress function call.
+ */
+export type GetBurnAddress = CallResult<
+    {
+        burnAddress: string;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the proposeBurnAddressChange function call.
+ */
+export type ProposeBurnAddressChange = CallResult<
+    {
+        effectiveBlock: bigint;
+    },
+    OPNetEvent<BurnAddressChangeProposedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the applyBurnAddressChange function call.
+ */
+export type ApplyBurnAddressChange = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<BurnAddressAddedEvent | BurnAddressRetiredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the cancelBurnAddressChange function call.
+ */
+export type CancelBurnAddressChange = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<BurnAddressChangeCancelledEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getBurnAddresses function call.
+ */
+export type GetBurnAddresses = CallResult<
+    {
+        burnAddresses: string[];
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getCollectionId function call.
+ */
+export type GetCollectionId = CallResult<
+    {
+        collectionIdHash: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getParentInscriptions function call.
+ */
+export type GetParentInscriptions = CallResult<
+    {
+        parentInscriptionIds: string[];
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getTokenParent function call.
+ */
+export type GetTokenParent = CallResult<
+    {
+        parentInscriptionId: string;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the setGuardian function call.
+ */
+export type SetGuardian = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<GuardianChangedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the pause function call.
+ */
+export type Pause = CallResult<
+    {
+        unpauseBlock: bigint;
+    },
+    OPNetEvent<PausedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the unpause function call.
+ */
+export type Unpause = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<UnpausedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getPauseState function call.
+ */
+export type GetPauseState = CallResult<
+    {
+        guardian: Address;
+        attestPaused: boolean;
+        mintPaused: boolean;
+        transfersPaused: boolean;
+        pausedAtBlock: bigint;
+        unpauseBlock: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the setAllowlistRoot function call.
+ */
+export type SetAllowlistRoot = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<AllowlistRootSetEvent>[]
+>;
+
+/**
+ * @description Represents the result of the proveAllowlistMembership function call.
+ */
+export type ProveAllowlistMembership = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getAllowlistStatus function call.
+ */
+export type GetAllowlistStatus = CallResult<
+    {
+        root: bigint;
+        allowed: boolean;
+    },
+    OPNetEvent<never>[]
+>;
 
-// ------------------------------------------------------------------
-// Call Results
-// ------------------------------------------------------------------
+/**
+ * @description Represents the result of the setChallengePeriod function call.
+ */
+export type SetChallengePeriod = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<ChallengePeriodUpdatedEvent>[]
+>;
 
 /**
- * @description Represents the result of the recordBurnWithAttestation function call.
+ * @description Represents the result of the getChallengePeriod function call.
  */
-export type RecordBurnWithAttestation = CallResult<
+export type GetChallengePeriod = CallResult<
+    {
+        challengePeriod: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the revokeBurn function call.
+ */
+export type RevokeBurn = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<BurnRevokedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the revokeBurnWithAttestation function call.
+ */
+export type RevokeBurnWithAttestation = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<BurnRevokedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setMintBudget function call.
+ */
+export type SetMintBudget = CallResult<
     {
         success: boolean;
     },
+    OPNetEvent<MintBudgetUpdatedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getMintBudget function call.
+ */
+export type GetMintBudget = CallResult<
+    {
+        maxBurns: number;
+        period: bigint;
+        used: number;
+        remaining: number;
+        windowEndBlock: bigint;
+        pendingReview: number;
+    },
     OPNetEvent<never>[]
 >;
 
 /**
- * @description Represents the result of the mint function call.
+ * @description Represents the result of the getPendingBurn function call.
  */
-export type Mint = CallResult<
+export type GetPendingBurn = CallResult<
     {
-        tokenId: bigint;
+        pending: boolean;
+        burner: Address;
+        queuedBlock: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the releasePendingBurn function call.
+ */
+export type ReleasePendingBurn = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<PendingBurnReleasedEvent | BurnRecordedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the rejectPendingBurn function call.
+ */
+export type RejectPendingBurn = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<PendingBurnRejectedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getBridgeStats function call.
+ */
+export type GetBridgeStats = CallResult<
+    {
+        burnsRecorded: bigint;
+        tokensMinted: bigint;
+        burnsRevoked: bigint;
+        pendingMints: bigint;
+        heldForReview: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getBurnerStats function call.
+ */
+export type GetBurnerStats = CallResult<
+    {
+        recorded: bigint;
+        minted: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the proposeFeeConfig function call.
+ */
+export type ProposeFeeConfig = CallResult<
+    {
+        effectiveBlock: bigint;
+    },
+    OPNetEvent<FeeConfigProposedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the applyFeeConfig function call.
+ */
+export type ApplyFeeConfig = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<FeeConfigAppliedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the cancelFeeConfig function call.
+ */
+export type CancelFeeConfig = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<FeeConfigCancelledEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setFeeExempt function call.
+ */
+export type SetFeeExempt = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<FeeExemptionChangedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getFeeConfig function call.
+ */
+export type GetFeeConfig = CallResult<
+    {
+        token: Address;
+        amount: bigint;
+        recipient: Address;
+        pendingToken: Address;
+        pendingAmount: bigint;
+        pendingRecipient: Address;
+        pendingEffectiveBlock: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the isFeeExempt function call.
+ */
+export type IsFeeExempt = CallResult<
+    {
+        exempt: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the setContentBaseURI function call.
+ */
+export type SetContentBaseURI = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<ContentBaseURIChangedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getContentBaseURI function call.
+ */
+export type GetContentBaseURI = CallResult<
+    {
+        contentBaseURI: string;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the transferBySignature function call.
+ */
+export type TransferBySignature = CallResult<
+    {
+        success: boolean;
     },
     OPNetEvent<TransferredEvent>[]
 >;
 
 /**
- * @description Represents the result of the setOracle function call.
+ * @description Represents the result of the approveByMLDSASignature function call.
+ */
+export type ApproveByMLDSASignature = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<ApprovedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setApprovalForAllByMLDSASignature function call.
+ */
+export type SetApprovalForAllByMLDSASignature = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<ApprovedForAllEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setDefaultRoyalty function call.
+ */
+export type SetDefaultRoyalty = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<DefaultRoyaltyChangedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setTokenRoyalty function call.
  */
-export type SetOracle = CallResult<
+export type SetTokenRoyalty = CallResult<
     {
         success: boolean;
     },
+    OPNetEvent<TokenRoyaltyChangedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the royaltyInfo function call.
+ */
+export type RoyaltyInfo = CallResult<
+    {
+        receiver: Address;
+        royaltyAmount: bigint;
+    },
     OPNetEvent<never>[]
 >;
 
 /**
- * @description Represents the result of the getBurnStatus function call.
+ * @description Represents the result of the submitUpdate function call.
  */
-export type GetBurnStatus = CallResult<
+export type SubmitUpdate = CallResult<{}, OPNetEvent<UpdateSubmittedEvent>[]>;
+
+/**
+ * @description Represents the result of the applyUpdate function call.
+ */
+export type ApplyUpdate = CallResult<{}, OPNetEvent<UpdateAppliedEvent>[]>;
+
+/**
+ * @description Represents the result of the cancelUpdate function call.
+ */
+export type CancelUpdate = CallResult<{}, OPNetEvent<UpdateCancelledEvent>[]>;
+
+/**
+ * @description Represents the result of the pendingUpdate function call.
+ */
+export type PendingUpdate = CallResult<
     {
-        verified: boolean;
-        minted: boolean;
+        sourceAddress: Address;
+        submitBlock: bigint;
+        effectiveBlock: bigint;
     },
     OPNetEvent<never>[]
 >;
 
 /**
- * @description Represents the result of the getBurnAddress function call.
+ * @description Represents the result of the updateDelay function call.
  */
-export type GetBurnAddress = CallResult<
+export type UpdateDelay = CallResult<
     {
-        burnAddress: string;
+        updateDelay: bigint;
     },
     OPNetEvent<never>[]
 >;
 
 /**
- * @description Represents the result of the getCollectionId function call.
+ * @description Represents the result of the getStorageVersion function call.
  */
-export type GetCollectionId = CallResult<
+export type GetStorageVersion = CallResult<
     {
-        collectionIdHash: bigint;
+        storageVersion: number;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the grantRole function call.
+ */
+export type GrantRole = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<RoleGrantedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the revokeRole function call.
+ */
+export type RevokeRole = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<RoleRevokedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the hasRole function call.
+ */
+export type HasRole = CallResult<
+    {
+        hasRole: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the transferAdmin function call.
+ */
+export type TransferAdmin = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<AdminTransferStartedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the acceptAdmin function call.
+ */
+export type AcceptAdmin = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<AdminTransferredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getAdmin function call.
+ */
+export type GetAdmin = CallResult<
+    {
+        admin: Address;
+        pendingAdmin: Address;
     },
     OPNetEvent<never>[]
 >;
@@ -89,9 +1160,187 @@ export interface IOrdinalsVault extends IOP_NETContract {
         oraclePublicKey: Uint8Array,
         oracleSig: Uint8Array,
     ): Promise<RecordBurnWithAttestation>;
+    recordBurnWithAttestations(
+        inscriptionId: string,
+        burner: Address,
+        deadline: bigint,
+        nonce: bigint,
+        collectionIdHash: bigint,
+        oraclePublicKeys: Uint8Array[],
+        oracleSigs: Uint8Array[],
+    ): Promise<RecordBurnWithAttestations>;
+    recordBurnWithAttestationV3(
+        inscriptionId: string,
+        burner: Address,
+        deadline: bigint,
+        nonce: bigint,
+        collectionIdHash: bigint,
+        burnAddressHash: bigint,
+        oraclePublicKeys: Uint8Array[],
+        oracleSigs: Uint8Array[],
+    ): Promise<RecordBurnWithAttestationV3>;
+    recordBurnWithProvenance(
+        inscriptionId: string,
+        burner: Address,
+        deadline: bigint,
+        nonce: bigint,
+        collectionIdHash: bigint,
+        burnAddressHash: bigint,
+        burnTxid: bigint,
+        btcBlockHeight: bigint,
+        inscriptionNumber: bigint,
+        contentType: string,
+        satNumber: bigint,
+        oraclePublicKeys: Uint8Array[],
+        oracleSigs: Uint8Array[],
+    ): Promise<RecordBurnWithProvenance>;
+    recordBurnInTransaction(
+        inscriptionId: string,
+        outpointTxid: bigint,
+        outpointIndex: number,
+        deadline: bigint,
+        nonce: bigint,
+        collectionIdHash: bigint,
+        burnAddressHash: bigint,
+        oraclePublicKeys: Uint8Array[],
+        oracleSigs: Uint8Array[],
+    ): Promise<RecordBurnInTransaction>;
+    submitAttestationRoot(
+        root: bigint,
+        fromBlock: bigint,
+        toBlock: bigint,
+        deadline: bigint,
+        oraclePublicKeys: Uint8Array[],
+        oracleSigs: Uint8Array[],
+    ): Promise<SubmitAttestationRoot>;
+    recordBurnWithProof(
+        inscriptionId: string,
+        burner: Address,
+        nonce: bigint,
+        collectionIdHash: bigint,
+        burnAddressHash: bigint,
+        root: bigint,
+        proof: bigint[],
+    ): Promise<RecordBurnWithProof>;
+    revokeAttestationRoot(root: bigint): Promise<RevokeAttestationRoot>;
+    getAttestationRoot(root: bigint): Promise<GetAttestationRoot>;
     mint(inscriptionId: string): Promise<Mint>;
-    setOracle(newKeyHash: bigint): Promise<SetOracle>;
+    mintTo(inscriptionId: string, recipient: Address): Promise<MintTo>;
+    mintFor(
+        inscriptionId: string,
+        feeToken: Address,
+        fee: bigint,
+        deadline: bigint,
+        signature: Uint8Array,
+    ): Promise<MintFor>;
+    transferMintRight(inscriptionId: string, newBurner: Address): Promise<TransferMintRight>;
+    transferMintRightBySignature(
+        inscriptionId: string,
+        newBurner: Address,
+        deadline: bigint,
+        signature: Uint8Array,
+    ): Promise<TransferMintRightBySignature>;
+    requestRedemption(tokenId: bigint, btcDestination: string): Promise<RequestRedemption>;
+    confirmRedemption(
+        tokenId: bigint,
+        releaseTxid: bigint,
+        oraclePublicKeys: Uint8Array[],
+        oracleSigs: Uint8Array[],
+    ): Promise<ConfirmRedemption>;
+    disputeRedemption(tokenId: bigint): Promise<DisputeRedemption>;
+    getRedemption(tokenId: bigint): Promise<GetRedemption>;
+    getVaultMode(): Promise<GetVaultMode>;
+    getTokenIdMode(): Promise<GetTokenIdMode>;
+    getSignaturePolicy(): Promise<GetSignaturePolicy>;
+    proposeOracleRotation(oldKeyHash: bigint, newKeyHash: bigint): Promise<ProposeOracleRotation>;
+    applyOracleRotation(newKeyHash: bigint): Promise<ApplyOracleRotation>;
+    cancelOracleRotation(): Promise<CancelOracleRotation>;
+    setOracleRotationParams(rotationDelay: bigint, gracePeriod: bigint): Promise<SetOracleRotationParams>;
+    getOracleRotation(): Promise<GetOracleRotation>;
+    removeOracle(keyHash: bigint): Promise<RemoveOracle>;
+    setOracleThreshold(threshold: number): Promise<SetOracleThreshold>;
+    applyOracleThreshold(threshold: number): Promise<ApplyOracleThreshold>;
+    cancelOracleThreshold(): Promise<CancelOracleThreshold>;
+    getPendingOracleThreshold(): Promise<GetPendingOracleThreshold>;
+    getOracles(): Promise<GetOracles>;
+    isOracle(keyHash: bigint): Promise<IsOracle>;
     getBurnStatus(inscriptionId: string): Promise<GetBurnStatus>;
+    getNonceStatus(nonce: bigint): Promise<GetNonceStatus>;
+    getProvenance(tokenId: bigint): Promise<GetProvenance>;
     getBurnAddress(): Promise<GetBurnAddress>;
+    proposeBurnAddressChange(burnAddress: string, add: boolean): Promise<ProposeBurnAddressChange>;
+    applyBurnAddressChange(burnAddress: string): Promise<ApplyBurnAddressChange>;
+    cancelBurnAddressChange(burnAddress: string): Promise<CancelBurnAddressChange>;
+    getBurnAddresses(): Promise<GetBurnAddresses>;
     getCollectionId(): Promise<GetCollectionId>;
+    getParentInscriptions(): Promise<GetParentInscriptions>;
+    getTokenParent(tokenId: bigint): Promise<GetTokenParent>;
+    setGuardian(guardian: Address): Promise<SetGuardian>;
+    pause(flags: number): Promise<Pause>;
+    unpause(flags: number): Promise<Unpause>;
+    getPauseState(): Promise<GetPauseState>;
+    setAllowlistRoot(root: bigint): Promise<SetAllowlistRoot>;
+    proveAllowlistMembership(inscriptionId: string, index: number, proof: bigint[]): Promise<ProveAllowlistMembership>;
+    getAllowlistStatus(inscriptionId: string): Promise<GetAllowlistStatus>;
+    setChallengePeriod(challengePeriod: bigint): Promise<SetChallengePeriod>;
+    getChallengePeriod(): Promise<GetChallengePeriod>;
+    revokeBurn(inscriptionId: string): Promise<RevokeBurn>;
+    revokeBurnWithAttestation(
+        inscriptionId: string,
+        nonce: bigint,
+        deadline: bigint,
+        oraclePublicKeys: Uint8Array[],
+        oracleSigs: Uint8Array[],
+    ): Promise<RevokeBurnWithAttestation>;
+    setMintBudget(maxBurns: number, period: bigint): Promise<SetMintBudget>;
+    getMintBudget(): Promise<GetMintBudget>;
+    getPendingBurn(inscriptionId: string): Promise<GetPendingBurn>;
+    releasePendingBurn(inscriptionId: string): Promise<ReleasePendingBurn>;
+    rejectPendingBurn(inscriptionId: string): Promise<RejectPendingBurn>;
+    getBridgeStats(): Promise<GetBridgeStats>;
+    getBurnerStats(burner: Address): Promise<GetBurnerStats>;
+    proposeFeeConfig(token: Address, amount: bigint, recipient: Address): Promise<ProposeFeeConfig>;
+    applyFeeConfig(): Promise<ApplyFeeConfig>;
+    cancelFeeConfig(): Promise<CancelFeeConfig>;
+    setFeeExempt(account: Address, exempt: boolean): Promise<SetFeeExempt>;
+    getFeeConfig(): Promise<GetFeeConfig>;
+    isFeeExempt(account: Address): Promise<IsFeeExempt>;
+    setContentBaseURI(contentBaseURI: string): Promise<SetContentBaseURI>;
+    getContentBaseURI(): Promise<GetContentBaseURI>;
+    transferBySignature(
+        owner: Address,
+        to: Address,
+        tokenId: bigint,
+        deadline: bigint,
+        signature: Uint8Array,
+    ): Promise<TransferBySignature>;
+    approveByMLDSASignature(
+        owner: Address,
+        spender: Address,
+        tokenId: bigint,
+        deadline: bigint,
+        signature: Uint8Array,
+    ): Promise<ApproveByMLDSASignature>;
+    setApprovalForAllByMLDSASignature(
+        owner: Address,
+        operator: Address,
+        approved: boolean,
+        deadline: bigint,
+        signature: Uint8Array,
+    ): Promise<SetApprovalForAllByMLDSASignature>;
+    setDefaultRoyalty(receiver: Address, basisPoints: number): Promise<SetDefaultRoyalty>;
+    setTokenRoyalty(tokenId: bigint, receiver: Address, basisPoints: number): Promise<SetTokenRoyalty>;
+    royaltyInfo(tokenId: bigint, salePrice: bigint): Promise<RoyaltyInfo>;
+    submitUpdate(sourceAddress: Address): Promise<SubmitUpdate>;
+    applyUpdate(sourceAddress: Address, updateCalldata: Uint8Array): Promise<ApplyUpdate>;
+    cancelUpdate(): Promise<CancelUpdate>;
+    pendingUpdate(): Promise<PendingUpdate>;
+    updateDelay(): Promise<UpdateDelay>;
+    getStorageVersion(): Promise<GetStorageVersion>;
+    grantRole(role: number, account: Address): Promise<GrantRole>;
+    revokeRole(role: number, account: Address): Promise<RevokeRole>;
+    hasRole(role: number, account: Address): Promise<HasRole>;
+    transferAdmin(newAdmin: Address): Promise<TransferAdmin>;
+    acceptAdmin(): Promise<AcceptAdmin>;
+    getAdmin(): Promise<GetAdmin>;
 }
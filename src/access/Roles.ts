@@ -0,0 +1,159 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import {
+    Address,
+    Blockchain,
+    EMPTY_POINTER,
+    Revert,
+    StoredMapU256,
+    StoredU256,
+} from '@btc-vision/btc-runtime/runtime';
+import {
+    AdminTransferredEvent,
+    AdminTransferStartedEvent,
+    RoleGrantedEvent,
+    RoleRevokedEvent,
+} from '../events/RoleEvents';
+
+/** May rotate, add and remove oracle keys and tune oracle parameters */
+export const ROLE_ORACLE_MANAGER: u8 = 1;
+/** May change collection metadata and the base URI */
+export const ROLE_METADATA_MANAGER: u8 = 2;
+/** May register and update registry entries */
+export const ROLE_REGISTRAR: u8 = 4;
+
+const ALL_ROLES: u8 = ROLE_ORACLE_MANAGER | ROLE_METADATA_MANAGER | ROLE_REGISTRAR;
+
+/**
+ * Roles — shared access control for the vault and the collection registry.
+ *
+ * One admin holds every role and grants or revokes the others. The admin is
+ * handed over in two steps (transferAdmin, then acceptAdmin by the successor)
+ * so a typo can never lock the contract, and the deploying hot key can be
+ * replaced by a multisig. Until an admin has been set the deployer is the
+ * admin, so contracts deployed before roles existed keep working unchanged.
+ *
+ * Storage is owned by the host contract, which passes in three pointers
+ * allocated after its own so existing storage slots are not shifted.
+ */
+export class Roles {
+    /** Current admin packed as u256 (0 = the contract deployer) */
+    private readonly _admin: StoredU256;
+
+    /** Proposed admin packed as u256 (0 = none) */
+    private readonly _pendingAdmin: StoredU256;
+
+    /** account (packed as u256) → granted ROLE_* bits */
+    private readonly _roles: StoredMapU256;
+
+    public constructor(adminPointer: u16, pendingAdminPointer: u16, rolesPointer: u16) {
+        this._admin = new StoredU256(adminPointer, EMPTY_POINTER);
+        this._pendingAdmin = new StoredU256(pendingAdminPointer, EMPTY_POINTER);
+        this._roles = new StoredMapU256(rolesPointer);
+    }
+
+    public get admin(): Address {
+        const admin: u256 = this._admin.value;
+        if (u256.eq(admin, u256.Zero)) {
+            return Blockchain.contractDeployer;
+        }
+        return Roles.toAddress(admin);
+    }
+
+    public get pendingAdmin(): Address {
+        return Roles.toAddress(this._pendingAdmin.value);
+    }
+
+    /** Whether `account` holds `role`; the admin holds every role */
+    public hasRole(role: u8, account: Address): bool {
+        if (account == this.admin) {
+            return true;
+        }
+        const granted: u8 = <u8>this._roles.get(Roles.toU256(account)).toU32();
+        return (granted & role) != 0;
+    }
+
+    public onlyAdmin(caller: Address): void {
+        if (caller != this.admin) {
+            throw new Revert('Roles: caller is not the admin');
+        }
+    }
+
+    public onlyRole(role: u8, caller: Address): void {
+        if (!this.hasRole(role, caller)) {
+            throw new Revert('Roles: caller is missing role');
+        }
+    }
+
+    /** Grants `role` to `account`. Admin only. */
+    public grantRole(role: u8, account: Address, caller: Address): void {
+        this.onlyAdmin(caller);
+        Roles.requireSingleRole(role);
+        if (account.isZero()) {
+            throw new Revert('Roles: invalid account');
+        }
+
+        const key: u256 = Roles.toU256(account);
+        const granted: u8 = <u8>this._roles.get(key).toU32();
+        this._roles.set(key, u256.fromU32(<u32>(granted | role)));
+
+        Blockchain.emit(new RoleGrantedEvent(role, account, caller));
+    }
+
+    /** Revokes `role` from `account`. Admin only. */
+    public revokeRole(role: u8, account: Address, caller: Address): void {
+        this.onlyAdmin(caller);
+        Roles.requireSingleRole(role);
+
+        const key: u256 = Roles.toU256(account);
+        const granted: u8 = <u8>this._roles.get(key).toU32();
+        if ((granted & role) == 0) {
+            throw new Revert('Roles: account does not have role');
+        }
+
+        const remaining: u8 = granted & ~role;
+        if (remaining == 0) {
+            this._roles.delete(key);
+        } else {
+            this._roles.set(key, u256.fromU32(<u32>remaining));
+        }
+
+        Blockchain.emit(new RoleRevokedEvent(role, account, caller));
+    }
+
+    /** Proposes `newAdmin` as successor; the zero address withdraws the proposal. Admin only. */
+    public transferAdmin(newAdmin: Address, caller: Address): void {
+        this.onlyAdmin(caller);
+
+        this._pendingAdmin.value = newAdmin.isZero() ? u256.Zero : Roles.toU256(newAdmin);
+
+        Blockchain.emit(new AdminTransferStartedEvent(caller, newAdmin));
+    }
+
+    /** Completes the handoff. Only the proposed admin can call this. */
+    public acceptAdmin(caller: Address): void {
+        const pending: u256 = this._pendingAdmin.value;
+        if (u256.eq(pending, u256.Zero) || !u256.eq(pending, Roles.toU256(caller))) {
+            throw new Revert('Roles: caller is not the pending admin');
+        }
+
+        const previous: Address = this.admin;
+        this._admin.value = pending;
+        this._pendingAdmin.value = u256.Zero;
+
+        Blockchain.emit(new AdminTransferredEvent(previous, caller));
+    }
+
+    private static requireSingleRole(role: u8): void {
+        if (role == 0 || (role & ~ALL_ROLES) != 0 || (role & (role - 1)) != 0) {
+            throw new Revert('Roles: invalid role');
+        }
+    }
+
+    private static toU256(account: Address): u256 {
+        return u256.fromUint8ArrayBE(account);
+    }
+
+    private static toAddress(value: u256): Address {
+        return new Address(value.toBytes(true));
+    }
+}
@@ -12,10 +12,14 @@ import {
     StoredU256,
 } from '@btc-vision/btc-runtime/runtime';
 import { sha256 } from '@btc-vision/btc-runtime/runtime/env/global';
+import { ROLE_REGISTRAR, Roles } from '../access/Roles';
 
 const collectionCountPointer: u16 = Blockchain.nextPointer;
 const collectionVaultsPointer: u16 = Blockchain.nextPointer;
 const collectionIndexPointer: u16 = Blockchain.nextPointer;
+const adminPointer: u16 = Blockchain.nextPointer;
+const pendingAdminPointer: u16 = Blockchain.nextPointer;
+const rolesPointer: u16 = Blockchain.nextPointer;
 
 /**
  * CollectionRegistry — On-chain directory mapping collection IDs to OrdinalsVault addresses.
@@ -23,7 +27,7 @@ const collectionIndexPointer: u16 = Blockchain.nextPointer;
  * Each collection is identified by sha256(collectionSlug) stored as u256.
  * The registry stores the OPNet address of the corresponding OrdinalsVault contract.
  *
- * Registration is deployer-only. Anyone can read.
+ * Registration is limited to registrars (see Roles). Anyone can read.
  *
  * This contract does NOT deploy vaults — vaults are deployed off-chain via script,
  * then registered here so the frontend can discover them.
@@ -39,11 +43,15 @@ export class CollectionRegistry extends OP_NET {
     /** sequential index (u256) → collectionIdHash for enumeration */
     private readonly _collectionIndex: StoredMapU256;
 
+    /** Admin, pending admin and granted roles (registrar) */
+    private readonly _roles: Roles;
+
     public constructor() {
         super();
         this._collectionCount = new StoredU256(collectionCountPointer, EMPTY_POINTER);
         this._collectionVaults = new StoredMapU256(collectionVaultsPointer);
         this._collectionIndex = new StoredMapU256(collectionIndexPointer);
+        this._roles = new Roles(adminPointer, pendingAdminPointer, rolesPointer);
     }
 
     public override onDeployment(_calldata: Calldata): void {
@@ -51,7 +59,7 @@ export class CollectionRegistry extends OP_NET {
     }
 
     /**
-     * Register a vault for a collection. Deployer only.
+     * Register a vault for a collection. Registrar only.
      *
      * @param calldata - collectionIdHash (u256 = sha256 of collection slug),
      *                   vaultAddress (address)
@@ -63,7 +71,7 @@ export class CollectionRegistry extends OP_NET {
     )
     @returns({ name: 'success', type: ABIDataTypes.BOOL })
     public registerCollection(calldata: Calldata): BytesWriter {
-        this.onlyDeployer(Blockchain.tx.sender);
+        this._roles.onlyRole(ROLE_REGISTRAR, Blockchain.tx.sender);
 
         const collectionIdHash: u256 = calldata.readU256();
         const vaultAddress: Address = calldata.readAddress();
@@ -89,7 +97,7 @@ export class CollectionRegistry extends OP_NET {
     }
 
     /**
-     * Update vault address for an existing collection. Deployer only.
+     * Update vault address for an existing collection. Registrar only.
      *
      * @param calldata - collectionIdHash (u256), newVaultAddress (address)
      * @returns success (bool)
@@ -100,7 +108,7 @@ export class CollectionRegistry extends OP_NET {
     )
     @returns({ name: 'success', type: ABIDataTypes.BOOL })
     public updateCollection(calldata: Calldata): BytesWriter {
-        this.onlyDeployer(Blockchain.tx.sender);
+        this._roles.onlyRole(ROLE_REGISTRAR, Blockchain.tx.sender);
 
         const collectionIdHash: u256 = calldata.readU256();
         const newVaultAddress: Address = calldata.readAddress();
@@ -177,4 +185,124 @@ export class CollectionRegistry extends OP_NET {
         writer.writeU256(collectionIdHash);
         return writer;
     }
+
+    /**
+     * Grants a role to an account. Admin only.
+     *
+     * @param calldata - role (u8: 1 oracle manager, 2 metadata manager, 4 registrar),
+     *                   account (address)
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'role', type: ABIDataTypes.UINT8 },
+        { name: 'account', type: ABIDataTypes.ADDRESS },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('RoleGranted')
+    public grantRole(calldata: Calldata): BytesWriter {
+        const role: u8 = calldata.readU8();
+        const account: Address = calldata.readAddress();
+
+        this._roles.grantRole(role, account, Blockchain.tx.sender);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Revokes a role from an account. Admin only.
+     *
+     * @param calldata - role (u8), account (address)
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'role', type: ABIDataTypes.UINT8 },
+        { name: 'account', type: ABIDataTypes.ADDRESS },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('RoleRevoked')
+    public revokeRole(calldata: Calldata): BytesWriter {
+        const role: u8 = calldata.readU8();
+        const account: Address = calldata.readAddress();
+
+        this._roles.revokeRole(role, account, Blockchain.tx.sender);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Whether an account holds a role (the admin holds every role).
+     *
+     * @param calldata - role (u8), account (address)
+     * @returns hasRole (bool)
+     */
+    @method(
+        { name: 'role', type: ABIDataTypes.UINT8 },
+        { name: 'account', type: ABIDataTypes.ADDRESS },
+    )
+    @returns({ name: 'hasRole', type: ABIDataTypes.BOOL })
+    public hasRole(calldata: Calldata): BytesWriter {
+        const role: u8 = calldata.readU8();
+        const account: Address = calldata.readAddress();
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(this._roles.hasRole(role, account));
+        return writer;
+    }
+
+    /**
+     * Starts a two-step admin handoff; the successor must call acceptAdmin.
+     * Pass the zero address to withdraw a pending proposal. Admin only.
+     *
+     * @param calldata - newAdmin (address)
+     * @returns success (bool)
+     */
+    @method({ name: 'newAdmin', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('AdminTransferStarted')
+    public transferAdmin(calldata: Calldata): BytesWriter {
+        const newAdmin: Address = calldata.readAddress();
+
+        this._roles.transferAdmin(newAdmin, Blockchain.tx.sender);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Completes the admin handoff. Pending admin only.
+     *
+     * @returns success (bool)
+     */
+    @method()
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('AdminTransferred')
+    public acceptAdmin(_calldata: Calldata): BytesWriter {
+        this._roles.acceptAdmin(Blockchain.tx.sender);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Returns the current and pending admin.
+     *
+     * @returns admin (address), pendingAdmin (address, zero if none)
+     */
+    @method()
+    @returns(
+        { name: 'admin', type: ABIDataTypes.ADDRESS },
+        { name: 'pendingAdmin', type: ABIDataTypes.ADDRESS },
+    )
+    public getAdmin(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(64);
+        writer.writeAddress(this._roles.admin);
+        writer.writeAddress(this._roles.pendingAdmin);
+        return writer;
+    }
 }
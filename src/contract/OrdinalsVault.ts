@@ -1,28 +1,273 @@
 import { u256 } from '@btc-vision/as-bignum/assembly';
 import {
     Address,
+    Bech32,
     Blockchain,
     BytesWriter,
     Calldata,
     EMPTY_POINTER,
+    ExtendedAddress,
+    MAX_URI_LENGTH,
     MLDSASecurityLevel,
+    Network,
     OP721,
     OP721InitParameters,
+    OP721_APPROVAL_FOR_ALL_TYPE_HASH,
+    OP721_APPROVAL_TYPE_HASH,
     Revert,
     SafeMath,
+    SegwitDecoded,
+    SignaturesMethods,
+    StoredAddress,
     StoredMapU256,
     StoredString,
     StoredU256,
+    TransactionInput,
+    TransactionOutput,
+    TransferHelper,
+    UpdateAppliedEvent,
+    UpdateCancelledEvent,
+    UpdateSubmittedEvent,
 } from '@btc-vision/btc-runtime/runtime';
 import { sha256 } from '@btc-vision/btc-runtime/runtime/env/global';
+import { ROLE_METADATA_MANAGER, ROLE_ORACLE_MANAGER, Roles } from '../access/Roles';
+import {
+    OracleRotationAppliedEvent,
+    OracleRotationCancelledEvent,
+    OracleRotationProposedEvent,
+} from '../events/OracleRotationEvents';
+import {
+    RedemptionCompletedEvent,
+    RedemptionDisputedEvent,
+    RedemptionRequestedEvent,
+} from '../events/RedemptionEvents';
+import { AllowlistRootSetEvent } from '../events/AllowlistRootSetEvent';
+import { AttestationRootAcceptedEvent } from '../events/AttestationRootAcceptedEvent';
+import { AttestationRootRevokedEvent } from '../events/AttestationRootRevokedEvent';
+import {
+    BurnAddressAddedEvent,
+    BurnAddressChangeCancelledEvent,
+    BurnAddressChangeProposedEvent,
+    BurnAddressRetiredEvent,
+} from '../events/BurnAddressEvents';
+import { BurnRecordedEvent } from '../events/BurnRecordedEvent';
+import {
+    FeeConfigAppliedEvent,
+    FeeConfigCancelledEvent,
+    FeeConfigProposedEvent,
+    FeeExemptionChangedEvent,
+} from '../events/FeeEvents';
+import { BurnRevokedEvent, ChallengePeriodUpdatedEvent } from '../events/BurnRevocationEvents';
+import { ContentBaseURIChangedEvent } from '../events/ContentBaseURIChangedEvent';
+import {
+    BurnQueuedForReviewEvent,
+    MintBudgetUpdatedEvent,
+    PendingBurnRejectedEvent,
+    PendingBurnReleasedEvent,
+} from '../events/MintBudgetEvents';
+import { MintEvent } from '../events/MintEvent';
+import { MintRightTransferredEvent } from '../events/MintRightTransferredEvent';
+import { OracleChangedEvent } from '../events/OracleChangedEvent';
+import {
+    OracleThresholdCancelledEvent,
+    OracleThresholdChangedEvent,
+    OracleThresholdProposedEvent,
+} from '../events/OracleThresholdEvents';
+import { DefaultRoyaltyChangedEvent, TokenRoyaltyChangedEvent } from '../events/RoyaltyEvents';
+import { GuardianChangedEvent, PausedEvent, UnpausedEvent } from '../events/PauseEvents';
+import { jsonAttribute, jsonDataURI, jsonString } from '../metadata/JsonMetadata';
 
 const burnAddressPointer: u16 = Blockchain.nextPointer;
 const verifiedBurnsPointer: u16 = Blockchain.nextPointer;
 const burnBlockHeightsPointer: u16 = Blockchain.nextPointer;
 const mintedInscriptionsPointer: u16 = Blockchain.nextPointer;
+// Legacy single-oracle slot — superseded by the oracle set below, kept so later pointers keep their slots
 const oracleKeyHashPointer: u16 = Blockchain.nextPointer;
 const usedNoncesPointer: u16 = Blockchain.nextPointer;
 const collectionIdHashPointer: u16 = Blockchain.nextPointer;
+const oracleCountPointer: u16 = Blockchain.nextPointer;
+const oracleByIndexPointer: u16 = Blockchain.nextPointer;
+const oracleIndexPointer: u16 = Blockchain.nextPointer;
+const oracleThresholdPointer: u16 = Blockchain.nextPointer;
+const pendingOracleOldPointer: u16 = Blockchain.nextPointer;
+const pendingOracleNewPointer: u16 = Blockchain.nextPointer;
+const pendingOracleBlockPointer: u16 = Blockchain.nextPointer;
+const oracleRotationDelayPointer: u16 = Blockchain.nextPointer;
+const oracleGracePeriodPointer: u16 = Blockchain.nextPointer;
+const retiredOracleKeyPointer: u16 = Blockchain.nextPointer;
+const retiredOracleSuccessorPointer: u16 = Blockchain.nextPointer;
+const retiredOracleUntilPointer: u16 = Blockchain.nextPointer;
+const vaultModePointer: u16 = Blockchain.nextPointer;
+const tokenInscriptionPointer: u16 = Blockchain.nextPointer;
+const redemptionStatusPointer: u16 = Blockchain.nextPointer;
+const redemptionRequesterPointer: u16 = Blockchain.nextPointer;
+const redemptionBlockPointer: u16 = Blockchain.nextPointer;
+const redemptionDestinationPointer: u16 = Blockchain.nextPointer;
+const redemptionReleaseTxidPointer: u16 = Blockchain.nextPointer;
+const attestationRootDeadlinePointer: u16 = Blockchain.nextPointer;
+const attestationRootFromBlockPointer: u16 = Blockchain.nextPointer;
+const attestationRootToBlockPointer: u16 = Blockchain.nextPointer;
+const provenanceCountPointer: u16 = Blockchain.nextPointer;
+const burnProvenancePointer: u16 = Blockchain.nextPointer;
+const tokenProvenancePointer: u16 = Blockchain.nextPointer;
+const provenanceBurnTxidPointer: u16 = Blockchain.nextPointer;
+const provenanceBlockHeightPointer: u16 = Blockchain.nextPointer;
+const provenanceInscriptionNumberPointer: u16 = Blockchain.nextPointer;
+const provenanceSatNumberPointer: u16 = Blockchain.nextPointer;
+const provenanceContentTypePointer: u16 = Blockchain.nextPointer;
+const burnAddressCountPointer: u16 = Blockchain.nextPointer;
+const burnAddressByIndexPointer: u16 = Blockchain.nextPointer;
+const burnAddressIndexPointer: u16 = Blockchain.nextPointer;
+const pendingBurnAddressBlockPointer: u16 = Blockchain.nextPointer;
+const pendingBurnAddressActionPointer: u16 = Blockchain.nextPointer;
+const guardianPointer: u16 = Blockchain.nextPointer;
+const pausedFlagsPointer: u16 = Blockchain.nextPointer;
+const pausedAtBlockPointer: u16 = Blockchain.nextPointer;
+const adminPointer: u16 = Blockchain.nextPointer;
+const pendingAdminPointer: u16 = Blockchain.nextPointer;
+const rolesPointer: u16 = Blockchain.nextPointer;
+const pendingUpdateAddressPointer: u16 = Blockchain.nextPointer;
+const pendingUpdateBlockPointer: u16 = Blockchain.nextPointer;
+const storageVersionPointer: u16 = Blockchain.nextPointer;
+const mintBudgetMaxPointer: u16 = Blockchain.nextPointer;
+const mintBudgetPeriodPointer: u16 = Blockchain.nextPointer;
+const mintBudgetWindowStartPointer: u16 = Blockchain.nextPointer;
+const mintBudgetUsedPointer: u16 = Blockchain.nextPointer;
+const pendingBurnerPointer: u16 = Blockchain.nextPointer;
+const pendingBurnBlockPointer: u16 = Blockchain.nextPointer;
+const pendingBurnCountPointer: u16 = Blockchain.nextPointer;
+const challengePeriodPointer: u16 = Blockchain.nextPointer;
+const burnNoncePointer: u16 = Blockchain.nextPointer;
+const burnRevokedBlockPointer: u16 = Blockchain.nextPointer;
+const allowlistRootPointer: u16 = Blockchain.nextPointer;
+const allowlistedPointer: u16 = Blockchain.nextPointer;
+const tokenIdModePointer: u16 = Blockchain.nextPointer;
+const defaultRoyaltyReceiverPointer: u16 = Blockchain.nextPointer;
+const defaultRoyaltyBpsPointer: u16 = Blockchain.nextPointer;
+const tokenRoyaltyReceiverPointer: u16 = Blockchain.nextPointer;
+const tokenRoyaltyBpsPointer: u16 = Blockchain.nextPointer;
+const mintRightNoncePointer: u16 = Blockchain.nextPointer;
+const signaturePolicyPointer: u16 = Blockchain.nextPointer;
+const feeTokenPointer: u16 = Blockchain.nextPointer;
+const feeAmountPointer: u16 = Blockchain.nextPointer;
+const feeRecipientPointer: u16 = Blockchain.nextPointer;
+const pendingFeeTokenPointer: u16 = Blockchain.nextPointer;
+const pendingFeeAmountPointer: u16 = Blockchain.nextPointer;
+const pendingFeeRecipientPointer: u16 = Blockchain.nextPointer;
+const pendingFeeBlockPointer: u16 = Blockchain.nextPointer;
+const feeExemptPointer: u16 = Blockchain.nextPointer;
+const parentCountPointer: u16 = Blockchain.nextPointer;
+const parentByIndexPointer: u16 = Blockchain.nextPointer;
+const parentIndexPointer: u16 = Blockchain.nextPointer;
+const burnParentPointer: u16 = Blockchain.nextPointer;
+const tokenParentPointer: u16 = Blockchain.nextPointer;
+const contentBaseURIPointer: u16 = Blockchain.nextPointer;
+const burnsRecordedPointer: u16 = Blockchain.nextPointer;
+const tokensMintedPointer: u16 = Blockchain.nextPointer;
+const burnsRevokedPointer: u16 = Blockchain.nextPointer;
+const burnerRecordedPointer: u16 = Blockchain.nextPointer;
+const burnerMintedPointer: u16 = Blockchain.nextPointer;
+const pendingBurnCollectionPointer: u16 = Blockchain.nextPointer;
+const pendingOracleThresholdPointer: u16 = Blockchain.nextPointer;
+const pendingOracleThresholdBlockPointer: u16 = Blockchain.nextPointer;
+
+/** Upper bound on the oracle set size — keeps signature loops and removals bounded */
+const MAX_ORACLES: u32 = 16;
+
+/** Default oracle rotation timelock: 144 blocks ≈ 24 hours */
+const DEFAULT_ORACLE_ROTATION_DELAY: u64 = 144;
+
+/** Default window after a rotation during which the outgoing key is still accepted: 144 blocks ≈ 24 hours */
+const DEFAULT_ORACLE_GRACE_PERIOD: u64 = 144;
+
+/** Burn mode: inscriptions are sent to an unspendable address, bridging is one-way */
+const VAULT_MODE_BURN: u8 = 0;
+
+/** Custody mode: inscriptions are held by an oracle-controlled address and can be redeemed */
+const VAULT_MODE_CUSTODY: u8 = 1;
+
+/** Token IDs handed out in claim order */
+const TOKEN_ID_SEQUENTIAL: u8 = 0;
+/** Token ID = the attested inscription number (needs v2 provenance attestations) */
+const TOKEN_ID_INSCRIPTION_NUMBER: u8 = 1;
+/** Token ID = the item's index in the collection allowlist */
+const TOKEN_ID_COLLECTION_INDEX: u8 = 2;
+
+/** Oracle signature policies: which signatures every oracle must produce */
+const SIG_POLICY_MLDSA: u8 = 0;
+const SIG_POLICY_SCHNORR: u8 = 1;
+const SIG_POLICY_HYBRID: u8 = 2;
+
+const SCHNORR_PUBLIC_KEY_LENGTH: i32 = 32;
+const SCHNORR_SIGNATURE_LENGTH: i32 = 64;
+
+/** Royalties are expressed in basis points of the sale price */
+const ROYALTY_DENOMINATOR: u16 = 10000;
+
+const REDEMPTION_NONE: u8 = 0;
+const REDEMPTION_PENDING: u8 = 1;
+const REDEMPTION_COMPLETED: u8 = 2;
+const REDEMPTION_DISPUTED: u8 = 3;
+
+/** Upper bound on accepted burn addresses */
+const MAX_BURN_ADDRESSES: u32 = 8;
+
+/** Upper bound on the parent inscriptions defining a parent collection */
+const MAX_PARENT_INSCRIPTIONS: u32 = 8;
+
+/** Pending burn address change kinds */
+const BURN_ADDRESS_ADD: u8 = 1;
+const BURN_ADDRESS_RETIRE: u8 = 2;
+
+/** Pause flags — each part of the bridge can be paused independently */
+const PAUSE_ATTEST: u8 = 1;
+const PAUSE_MINT: u8 = 2;
+const PAUSE_TRANSFER: u8 = 4;
+const PAUSE_ALL: u8 = PAUSE_ATTEST | PAUSE_MINT | PAUSE_TRANSFER;
+
+/** Blocks the admin must wait after the latest pause before unpausing: 144 blocks ≈ 1 day */
+const UNPAUSE_DELAY: u64 = 144;
+
+/** Upper bound on Merkle proof length: 32 levels ≈ 4 billion burns per root */
+const MAX_MERKLE_PROOF_LENGTH: i32 = 32;
+
+/** Struct type string for relayer-submitted mint intents (see mintFor) */
+const MINT_FOR_TYPE: string =
+    'MintFor(bytes32 inscriptionKey,address burner,address feeToken,uint256 fee,address bridgeFeeToken,uint256 bridgeFee,uint256 nonce,uint64 deadline)';
+
+/** Struct type string for burner-signed mint right transfers (see transferMintRightBySignature) */
+const MINT_RIGHT_TRANSFER_TYPE: string =
+    'TransferMintRight(bytes32 inscriptionKey,address burner,address newBurner,uint256 nonce,uint64 deadline)';
+
+/** Struct type string for owner-signed gasless transfers (see transferBySignature) */
+const OP721_TRANSFER_TYPE: string =
+    'OP721Transfer(address owner,address to,uint256 tokenId,uint256 nonce,uint64 deadline)';
+
+/** Blocks the oracle has to release a redeemed inscription before it can be disputed: 1008 blocks ≈ 1 week */
+const REDEMPTION_TIMEOUT: u64 = 1008;
+
+/** Upper bound on the challenge period: 1008 blocks ≈ 1 week */
+const MAX_CHALLENGE_PERIOD: u64 = 1008;
+
+/** usedNonces value for a nonce whose burn was revoked (1 = used) */
+const NONCE_REVOKED: u64 = 2;
+
+/** Blocks between submitting and applying a bytecode update: 1008 blocks ≈ 1 week */
+const UPDATE_DELAY: u64 = 1008;
+
+/**
+ * Storage layout written by this code. Bump it whenever a change needs existing
+ * data rewritten, and add the matching migration step to onUpdate.
+ *
+ *   0 — vaults deployed before layout versioning (FNV-1a keyed records, single burn address)
+ *   1 — binary outpoint keys, burn address list
+ *
+ * Layout 0 vaults were deployed without any update entry point, so they can
+ * never run onUpdate: they stay on their bytecode, and moving to this code
+ * means deploying a new vault. The 0 → 1 step only covers a versionless store
+ * reached some other way, so it is never mistaken for layout 1.
+ */
+const STORAGE_VERSION: u32 = 1;
 
 /**
  * OrdinalsVault — Gasless-oracle OP721 bridge for Bitcoin Ordinals.
@@ -48,33 +293,38 @@ const collectionIdHashPointer: u16 = Blockchain.nextPointer;
  *      inscriptionId, burner, deadline, nonce, oraclePublicKey, oracleSig
  *    ).
  *    Contract verifies:
- *      1. sha256(oraclePublicKey) == _oracleKeyHash (stored binding)
- *      2. ML-DSA-44 signature verification via verifyMLDSASignature
+ *      1. sha256(oraclePublicKey) is a registered oracle key hash
+ *      2. the oracle signature, under the vault's signature policy
+ *         (ML-DSA-44 by default, Schnorr or both — see getSignaturePolicy)
+ *    Vaults with several independent oracles use recordBurnWithAttestations,
+ *    which requires signatures from at least `threshold` distinct oracles.
+ *    Burns to a burn address other than the primary one are recorded with
+ *    recordBurnWithAttestationV3, whose attestation names the address.
  *    User then calls mint(inscriptionId) from their OPNet wallet.
  *    User pays their own gas — oracle is never involved in OPNet transactions.
+ *
+ * Custody mode (optional, chosen at deployment):
+ *    `burnAddress` is an oracle-controlled custody address instead of an
+ *    unspendable one. A holder calls requestRedemption(tokenId, btcDestination),
+ *    which burns the OP721 and emits RedemptionRequested. The oracle sends the
+ *    inscription to btcDestination and signs a release confirmation that anyone
+ *    can submit via confirmRedemption. If no confirmation arrives within
+ *    REDEMPTION_TIMEOUT blocks the redemption can be marked disputed.
  */
 @final
 export class OrdinalsVault extends OP721 {
-    /** Bitcoin address where inscriptions must be sent to burn */
+    /** Bitcoin address where inscriptions must be sent to burn (custody address in custody mode) */
     private readonly _burnAddress: StoredString;
 
-    /** inscriptionHash → FNV-64 hash of burner address (0 = not recorded) */
+    /** inscriptionKey → burner address packed as u256 (0 = not recorded) */
     private readonly _verifiedBurns: StoredMapU256;
 
-    /** inscriptionHash → block number when burn was recorded (0 = not recorded) */
+    /** inscriptionKey → block number when burn was recorded (0 = not recorded) */
     private readonly _burnBlockHeights: StoredMapU256;
 
-    /** inscriptionHash → tokenId + 1 (0 = not minted, prevents double-mint) */
+    /** inscriptionKey → tokenId + 1 (0 = not minted, prevents double-mint) */
     private readonly _mintedInscriptions: StoredMapU256;
 
-    /**
-     * sha256(oracleMLDSAPublicKey) stored as u256.
-     * The oracle's 1312-byte ML-DSA-44 public key must hash to this value.
-     * Callers pass the full public key in calldata; the contract validates
-     * the hash before running ML-DSA signature verification.
-     */
-    private readonly _oracleKeyHash: StoredU256;
-
     /** nonce (u256) → u256.One if used (anti-replay protection) */
     private readonly _usedNonces: StoredMapU256;
 
@@ -86,25 +336,349 @@ export class OrdinalsVault extends OP721 {
      */
     private readonly _collectionIdHash: StoredU256;
 
+    /** Number of registered oracle keys */
+    private readonly _oracleCount: StoredU256;
+
+    /** sequential index (u256) → oracle key hash, for enumeration */
+    private readonly _oracleByIndex: StoredMapU256;
+
+    /**
+     * sha256(oraclePublicKey) → index + 1 (0 = not a registered oracle).
+     * Callers pass the full public key in calldata (its layout depends on the
+     * signature policy); the contract validates its hash against this set
+     * before verifying the signature.
+     */
+    private readonly _oracleIndex: StoredMapU256;
+
+    /** Minimum number of distinct oracle signatures required per attestation */
+    private readonly _oracleThreshold: StoredU256;
+
+    /** Key hash being rotated out by the pending rotation (zero = pure addition) */
+    private readonly _pendingOracleOld: StoredU256;
+
+    /** Key hash being rotated in by the pending rotation */
+    private readonly _pendingOracleNew: StoredU256;
+
+    /** Block at which the pending rotation was proposed (0 = nothing pending) */
+    private readonly _pendingOracleBlock: StoredU256;
+
+    /** Blocks between proposeOracleRotation and applyOracleRotation (0 = default) */
+    private readonly _oracleRotationDelay: StoredU256;
+
+    /** Blocks after applyOracleRotation during which the outgoing key is still accepted */
+    private readonly _oracleGracePeriod: StoredU256;
+
+    /** Outgoing key hash of the last applied rotation (accepted until _retiredOracleUntil) */
+    private readonly _retiredOracleKey: StoredU256;
+
+    /** Key hash that replaced _retiredOracleKey — both count as the same oracle during grace */
+    private readonly _retiredOracleSuccessor: StoredU256;
+
+    /** Last block at which _retiredOracleKey is accepted */
+    private readonly _retiredOracleUntil: StoredU256;
+
+    /** VAULT_MODE_BURN or VAULT_MODE_CUSTODY, fixed at deployment */
+    private readonly _vaultMode: StoredU256;
+
+    /** tokenId → redemption status (REDEMPTION_*) */
+    private readonly _redemptionStatus: StoredMapU256;
+
+    /** tokenId → address that requested the redemption, packed as u256 */
+    private readonly _redemptionRequester: StoredMapU256;
+
+    /** tokenId → block at which the redemption was requested */
+    private readonly _redemptionBlock: StoredMapU256;
+
+    /** tokenId → Bitcoin txid that released the inscription from custody */
+    private readonly _redemptionReleaseTxid: StoredMapU256;
+
+    /** Merkle root → claim deadline (block height); zero = root not accepted */
+    private readonly _attestationRootDeadline: StoredMapU256;
+
+    /** Merkle root → first Bitcoin block covered by the root */
+    private readonly _attestationRootFromBlock: StoredMapU256;
+
+    /** Merkle root → last Bitcoin block covered by the root */
+    private readonly _attestationRootToBlock: StoredMapU256;
+
+    /** Number of provenance records; record indices start at 1 */
+    private readonly _provenanceCount: StoredU256;
+
+    /** inscription key → provenance record index of the current burn (0 = none) */
+    private readonly _burnProvenance: StoredMapU256;
+
+    /** tokenId → provenance record index (0 = minted without provenance) */
+    private readonly _tokenProvenance: StoredMapU256;
+
+    /** record index → Bitcoin burn txid */
+    private readonly _provenanceBurnTxid: StoredMapU256;
+
+    /** record index → Bitcoin block height of the burn */
+    private readonly _provenanceBlockHeight: StoredMapU256;
+
+    /** record index → inscription number (i64, stored as its u64 bit pattern) */
+    private readonly _provenanceInscriptionNumber: StoredMapU256;
+
+    /** record index → sat number of the inscribed sat */
+    private readonly _provenanceSatNumber: StoredMapU256;
+
+    /** Number of accepted burn addresses; the addresses live at burnAddressAt(0..count-1) */
+    private readonly _burnAddressCount: StoredU256;
+
+    /** sha256(burnAddress) → index in the accepted list + 1 (0 = not accepted) */
+    private readonly _burnAddressIndex: StoredMapU256;
+
+    /** sha256(burnAddress) → block at which an add/retire was proposed (0 = none pending) */
+    private readonly _pendingBurnAddressBlock: StoredMapU256;
+
+    /** sha256(burnAddress) → pending change kind (BURN_ADDRESS_ADD / BURN_ADDRESS_RETIRE) */
+    private readonly _pendingBurnAddressAction: StoredMapU256;
+
+    /** Address allowed to pause the bridge, packed as u256 (0 = none) */
+    private readonly _guardian: StoredU256;
+
+    /** Currently paused parts of the bridge (PAUSE_* bits) */
+    private readonly _pausedFlags: StoredU256;
+
+    /** Block of the latest pause; unpausing waits UNPAUSE_DELAY blocks from it */
+    private readonly _pausedAtBlock: StoredU256;
+
+    /** Admin, pending admin and granted roles (oracle manager, metadata manager) */
+    private readonly _roles: Roles;
+
+    /**
+     * Timelocked update flow (submitUpdate → wait UPDATE_DELAY → applyUpdate).
+     * Same slots as the runtime's UpdatablePlugin, which the vault used to
+     * register, but gated on the admin role instead of the deployer key.
+     */
+    private readonly _pendingUpdateSource: StoredAddress;
+    private readonly _pendingUpdateBlock: StoredU256;
+
+    /** Storage layout version the data is in (see STORAGE_VERSION) */
+    private readonly _storageVersion: StoredU256;
+
+    /** Burns that can be recorded per budget window (0 = unlimited) */
+    private readonly _mintBudgetMax: StoredU256;
+
+    /** Budget window length in blocks */
+    private readonly _mintBudgetPeriod: StoredU256;
+
+    /** Block the current budget window opened at */
+    private readonly _mintBudgetWindowStart: StoredU256;
+
+    /** Burns recorded in the current budget window */
+    private readonly _mintBudgetUsed: StoredU256;
+
+    /** inscription key → burner (packed as u256) of a burn held for review */
+    private readonly _pendingBurner: StoredMapU256;
+
+    /** inscription key → block the burn was held at */
+    private readonly _pendingBurnBlock: StoredMapU256;
+
+    /** Number of burns currently held for review */
+    private readonly _pendingBurnCount: StoredU256;
+
+    /** Blocks a recorded burn stays revocable before it can be minted (0 = one-block wait only) */
+    private readonly _challengePeriod: StoredU256;
+
+    /** inscription key → nonce of the attestation the burn was recorded with */
+    private readonly _burnNonce: StoredMapU256;
+
+    /** inscription key → block the recorded burn was revoked at (0 = not revoked) */
+    private readonly _burnRevokedBlock: StoredMapU256;
+
+    /** Merkle root of the collection's inscription keys (0 = no allowlist; frozen once set) */
+    private readonly _allowlistRoot: StoredU256;
+
+    /** inscription key → collection index + 1 once proven to be in the allowlist */
+    private readonly _allowlisted: StoredMapU256;
+
+    /** How token IDs are chosen (TOKEN_ID_*), fixed at deployment */
+    private readonly _tokenIdMode: StoredU256;
+
+    /** Which signatures oracles must produce (SIG_POLICY_*), fixed at deployment */
+    private readonly _signaturePolicy: StoredU256;
+
+    /** Default royalty receiver packed as u256 (0 = no default royalty) */
+    private readonly _defaultRoyaltyReceiver: StoredU256;
+
+    /** Default royalty in basis points */
+    private readonly _defaultRoyaltyBps: StoredU256;
+
+    /** tokenId → royalty receiver override packed as u256 (0 = use the default) */
+    private readonly _tokenRoyaltyReceiver: StoredMapU256;
+
+    /** tokenId → royalty override in basis points */
+    private readonly _tokenRoyaltyBps: StoredMapU256;
+
+    /** inscription key → number of mint right transfers (signed transfer nonce) */
+    private readonly _mintRightNonce: StoredMapU256;
+
+    /** OP20 the bridge fee is paid in, packed as u256 */
+    private readonly _feeToken: StoredU256;
+
+    /** Bridge fee charged per mint, in `_feeToken` units (0 = no fee) */
+    private readonly _feeAmount: StoredU256;
+
+    /** Address the bridge fee is paid to, packed as u256 */
+    private readonly _feeRecipient: StoredU256;
+
+    /** Fee config waiting for its timelock (see proposeFeeConfig) */
+    private readonly _pendingFeeToken: StoredU256;
+    private readonly _pendingFeeAmount: StoredU256;
+    private readonly _pendingFeeRecipient: StoredU256;
+
+    /** Block at which the pending fee config was proposed (0 = nothing pending) */
+    private readonly _pendingFeeBlock: StoredU256;
+
+    /** payer address (u256) → 1 if exempt from the bridge fee */
+    private readonly _feeExempt: StoredMapU256;
+
+    /** Number of parent inscriptions defining the collection (0 = not a parent collection), fixed at deployment */
+    private readonly _parentCount: StoredU256;
+
+    /** sha256(parent inscription ID) → index + 1 (0 = not an accepted parent) */
+    private readonly _parentIndex: StoredMapU256;
+
+    /** inscription key → parent index + 1 of the current burn (0 = none) */
+    private readonly _burnParent: StoredMapU256;
+
+    /** tokenId → parent index + 1 (0 = minted without a parent) */
+    private readonly _tokenParent: StoredMapU256;
+
+    /** Inscription content renderer; a token's image is this + its inscription ID (empty = no image) */
+    private readonly _contentBaseURI: StoredString;
+
+    /** Bridge counters for getBridgeStats — counted from the code version that introduced them */
+    private readonly _burnsRecorded: StoredU256;
+    private readonly _tokensMinted: StoredU256;
+    private readonly _burnsRevoked: StoredU256;
+
+    /** burner (u256) → burns recorded for them */
+    private readonly _burnerRecorded: StoredMapU256;
+
+    /** burner (u256) → tokens minted from burns whose mint right they held */
+    private readonly _burnerMinted: StoredMapU256;
+
+    /** inscription key → attested collectionIdHash of a burn held for review, for its BurnRecorded event */
+    private readonly _pendingBurnCollection: StoredMapU256;
+
+    /** Timelocked oracle threshold decrease: proposed threshold and the block it was proposed at (0 = none) */
+    private readonly _pendingOracleThreshold: StoredU256;
+    private readonly _pendingOracleThresholdBlock: StoredU256;
+
     public constructor() {
         super();
         this._burnAddress = new StoredString(burnAddressPointer);
         this._verifiedBurns = new StoredMapU256(verifiedBurnsPointer);
         this._burnBlockHeights = new StoredMapU256(burnBlockHeightsPointer);
         this._mintedInscriptions = new StoredMapU256(mintedInscriptionsPointer);
-        this._oracleKeyHash = new StoredU256(oracleKeyHashPointer, EMPTY_POINTER);
         this._usedNonces = new StoredMapU256(usedNoncesPointer);
         this._collectionIdHash = new StoredU256(collectionIdHashPointer, EMPTY_POINTER);
+        this._oracleCount = new StoredU256(oracleCountPointer, EMPTY_POINTER);
+        this._oracleByIndex = new StoredMapU256(oracleByIndexPointer);
+        this._oracleIndex = new StoredMapU256(oracleIndexPointer);
+        this._oracleThreshold = new StoredU256(oracleThresholdPointer, EMPTY_POINTER);
+        this._pendingOracleOld = new StoredU256(pendingOracleOldPointer, EMPTY_POINTER);
+        this._pendingOracleNew = new StoredU256(pendingOracleNewPointer, EMPTY_POINTER);
+        this._pendingOracleBlock = new StoredU256(pendingOracleBlockPointer, EMPTY_POINTER);
+        this._oracleRotationDelay = new StoredU256(oracleRotationDelayPointer, EMPTY_POINTER);
+        this._oracleGracePeriod = new StoredU256(oracleGracePeriodPointer, EMPTY_POINTER);
+        this._retiredOracleKey = new StoredU256(retiredOracleKeyPointer, EMPTY_POINTER);
+        this._retiredOracleSuccessor = new StoredU256(retiredOracleSuccessorPointer, EMPTY_POINTER);
+        this._retiredOracleUntil = new StoredU256(retiredOracleUntilPointer, EMPTY_POINTER);
+        this._vaultMode = new StoredU256(vaultModePointer, EMPTY_POINTER);
+        this._redemptionStatus = new StoredMapU256(redemptionStatusPointer);
+        this._redemptionRequester = new StoredMapU256(redemptionRequesterPointer);
+        this._redemptionBlock = new StoredMapU256(redemptionBlockPointer);
+        this._redemptionReleaseTxid = new StoredMapU256(redemptionReleaseTxidPointer);
+        this._attestationRootDeadline = new StoredMapU256(attestationRootDeadlinePointer);
+        this._attestationRootFromBlock = new StoredMapU256(attestationRootFromBlockPointer);
+        this._attestationRootToBlock = new StoredMapU256(attestationRootToBlockPointer);
+        this._provenanceCount = new StoredU256(provenanceCountPointer, EMPTY_POINTER);
+        this._burnProvenance = new StoredMapU256(burnProvenancePointer);
+        this._tokenProvenance = new StoredMapU256(tokenProvenancePointer);
+        this._provenanceBurnTxid = new StoredMapU256(provenanceBurnTxidPointer);
+        this._provenanceBlockHeight = new StoredMapU256(provenanceBlockHeightPointer);
+        this._provenanceInscriptionNumber = new StoredMapU256(provenanceInscriptionNumberPointer);
+        this._provenanceSatNumber = new StoredMapU256(provenanceSatNumberPointer);
+        this._burnAddressCount = new StoredU256(burnAddressCountPointer, EMPTY_POINTER);
+        this._burnAddressIndex = new StoredMapU256(burnAddressIndexPointer);
+        this._pendingBurnAddressBlock = new StoredMapU256(pendingBurnAddressBlockPointer);
+        this._pendingBurnAddressAction = new StoredMapU256(pendingBurnAddressActionPointer);
+        this._guardian = new StoredU256(guardianPointer, EMPTY_POINTER);
+        this._pausedFlags = new StoredU256(pausedFlagsPointer, EMPTY_POINTER);
+        this._pausedAtBlock = new StoredU256(pausedAtBlockPointer, EMPTY_POINTER);
+        this._roles = new Roles(adminPointer, pendingAdminPointer, rolesPointer);
+        this._pendingUpdateSource = new StoredAddress(pendingUpdateAddressPointer);
+        this._pendingUpdateBlock = new StoredU256(pendingUpdateBlockPointer, EMPTY_POINTER);
+        this._storageVersion = new StoredU256(storageVersionPointer, EMPTY_POINTER);
+        this._mintBudgetMax = new StoredU256(mintBudgetMaxPointer, EMPTY_POINTER);
+        this._mintBudgetPeriod = new StoredU256(mintBudgetPeriodPointer, EMPTY_POINTER);
+        this._mintBudgetWindowStart = new StoredU256(mintBudgetWindowStartPointer, EMPTY_POINTER);
+        this._mintBudgetUsed = new StoredU256(mintBudgetUsedPointer, EMPTY_POINTER);
+        this._pendingBurner = new StoredMapU256(pendingBurnerPointer);
+        this._pendingBurnBlock = new StoredMapU256(pendingBurnBlockPointer);
+        this._pendingBurnCount = new StoredU256(pendingBurnCountPointer, EMPTY_POINTER);
+        this._challengePeriod = new StoredU256(challengePeriodPointer, EMPTY_POINTER);
+        this._burnNonce = new StoredMapU256(burnNoncePointer);
+        this._burnRevokedBlock = new StoredMapU256(burnRevokedBlockPointer);
+        this._allowlistRoot = new StoredU256(allowlistRootPointer, EMPTY_POINTER);
+        this._allowlisted = new StoredMapU256(allowlistedPointer);
+        this._tokenIdMode = new StoredU256(tokenIdModePointer, EMPTY_POINTER);
+        this._defaultRoyaltyReceiver = new StoredU256(defaultRoyaltyReceiverPointer, EMPTY_POINTER);
+        this._defaultRoyaltyBps = new StoredU256(defaultRoyaltyBpsPointer, EMPTY_POINTER);
+        this._tokenRoyaltyReceiver = new StoredMapU256(tokenRoyaltyReceiverPointer);
+        this._tokenRoyaltyBps = new StoredMapU256(tokenRoyaltyBpsPointer);
+        this._mintRightNonce = new StoredMapU256(mintRightNoncePointer);
+        this._signaturePolicy = new StoredU256(signaturePolicyPointer, EMPTY_POINTER);
+        this._feeToken = new StoredU256(feeTokenPointer, EMPTY_POINTER);
+        this._feeAmount = new StoredU256(feeAmountPointer, EMPTY_POINTER);
+        this._feeRecipient = new StoredU256(feeRecipientPointer, EMPTY_POINTER);
+        this._pendingFeeToken = new StoredU256(pendingFeeTokenPointer, EMPTY_POINTER);
+        this._pendingFeeAmount = new StoredU256(pendingFeeAmountPointer, EMPTY_POINTER);
+        this._pendingFeeRecipient = new StoredU256(pendingFeeRecipientPointer, EMPTY_POINTER);
+        this._pendingFeeBlock = new StoredU256(pendingFeeBlockPointer, EMPTY_POINTER);
+        this._feeExempt = new StoredMapU256(feeExemptPointer);
+        this._parentCount = new StoredU256(parentCountPointer, EMPTY_POINTER);
+        this._parentIndex = new StoredMapU256(parentIndexPointer);
+        this._burnParent = new StoredMapU256(burnParentPointer);
+        this._tokenParent = new StoredMapU256(tokenParentPointer);
+        this._contentBaseURI = new StoredString(contentBaseURIPointer);
+        this._burnsRecorded = new StoredU256(burnsRecordedPointer, EMPTY_POINTER);
+        this._tokensMinted = new StoredU256(tokensMintedPointer, EMPTY_POINTER);
+        this._burnsRevoked = new StoredU256(burnsRevokedPointer, EMPTY_POINTER);
+        this._burnerRecorded = new StoredMapU256(burnerRecordedPointer);
+        this._burnerMinted = new StoredMapU256(burnerMintedPointer);
+        this._pendingBurnCollection = new StoredMapU256(pendingBurnCollectionPointer);
+        this._pendingOracleThreshold = new StoredU256(pendingOracleThresholdPointer, EMPTY_POINTER);
+        this._pendingOracleThresholdBlock = new StoredU256(pendingOracleThresholdBlockPointer, EMPTY_POINTER);
     }
 
     /**
      * One-time initialization at deployment.
      *
      * @param calldata - name (string), symbol (string), maxSupply (u256),
-     *                   burnAddress (string), oracleKeyHash (u256 = sha256 of the
-     *                   oracle's 1312-byte ML-DSA-44 public key, big-endian),
+     *                   burnAddress (string, P2TR address for the current
+     *                   network — the first accepted burn address), oracleKeyHash (u256 = sha256 of the
+     *                   oracle's public key as laid out by the signature policy,
+     *                   big-endian — becomes the first oracle, threshold 1),
      *                   collectionIdHash (u256 = sha256 of BIS collection slug,
-     *                   or u256.Zero for universal/legacy mode)
+     *                   or u256.Zero for universal/legacy mode and parent collections),
+     *                   vaultMode (u8 = 0 burn, 1 custody — in custody mode
+     *                   burnAddress is the oracle-controlled custody address),
+     *                   tokenIdMode (u8 = 0 sequential, 1 inscription number,
+     *                   2 collection index — collection mode only; burn vaults only
+     *                   for 1 and 2),
+     *                   signaturePolicy (u8 = 0 ML-DSA-44, 1 Schnorr, 2 hybrid —
+     *                   see verifyOracleSignature),
+     *                   parentInscriptionIds (u16 count + strings; empty unless the
+     *                   collection is defined by its parent inscriptions — see
+     *                   getParentInscriptions),
+     *                   baseURI, banner, icon, website, description (strings, the
+     *                   standard OP721 collection metadata; may be empty),
+     *                   contentBaseURI (string, inscription content renderer used
+     *                   for token images — see tokenURI; may be empty)
      */
     public override onDeployment(calldata: Calldata): void {
         const name: string = calldata.readStringWithLength();
@@ -113,14 +687,96 @@ export class OrdinalsVault extends OP721 {
         const burnAddress: string = calldata.readStringWithLength();
         const oracleKeyHash: u256 = calldata.readU256();
         const collectionIdHash: u256 = calldata.readU256();
+        const vaultMode: u8 = calldata.readU8();
+        const tokenIdMode: u8 = calldata.readU8();
+        const signaturePolicy: u8 = calldata.readU8();
+        const parentCount: u16 = calldata.readU16();
+        if (<u32>parentCount > MAX_PARENT_INSCRIPTIONS) {
+            throw new Revert('OrdinalsVault: too many parent inscriptions');
+        }
+        const parentInscriptionIds: string[] = [];
+        for (let i: u16 = 0; i < parentCount; i++) {
+            parentInscriptionIds.push(calldata.readStringWithLength());
+        }
+        const baseURI: string = calldata.readStringWithLength();
+        const banner: string = calldata.readStringWithLength();
+        const icon: string = calldata.readStringWithLength();
+        const website: string = calldata.readStringWithLength();
+        const description: string = calldata.readStringWithLength();
+        const contentBaseURI: string = calldata.readStringWithLength();
+
+        // Per-token strings are keyed by the token ID as a u64 (see tokenInscription)
+        if (u256.gt(maxSupply, u256.fromU64(u64.MAX_VALUE))) {
+            throw new Revert('OrdinalsVault: max supply exceeds u64');
+        }
+        if (vaultMode != VAULT_MODE_BURN && vaultMode != VAULT_MODE_CUSTODY) {
+            throw new Revert('OrdinalsVault: invalid vault mode');
+        }
+        if (tokenIdMode > TOKEN_ID_COLLECTION_INDEX) {
+            throw new Revert('OrdinalsVault: invalid token ID mode');
+        }
+        if (tokenIdMode == TOKEN_ID_COLLECTION_INDEX && u256.eq(collectionIdHash, u256.Zero) && parentCount == 0) {
+            throw new Revert('OrdinalsVault: collection index IDs require collection mode');
+        }
+        // A redeemed inscription can be bridged again, which would reuse its burned token ID
+        if (tokenIdMode != TOKEN_ID_SEQUENTIAL && vaultMode == VAULT_MODE_CUSTODY) {
+            throw new Revert('OrdinalsVault: custody vaults use sequential token IDs');
+        }
+        if (signaturePolicy > SIG_POLICY_HYBRID) {
+            throw new Revert('OrdinalsVault: invalid signature policy');
+        }
+        if (parentCount > 0 && !u256.eq(collectionIdHash, u256.Zero)) {
+            throw new Revert('OrdinalsVault: parent collections have no collection ID');
+        }
+        if (<u32>baseURI.length > MAX_URI_LENGTH || <u32>contentBaseURI.length > MAX_URI_LENGTH) {
+            throw new Revert('OrdinalsVault: URI exceeds maximum length');
+        }
 
         this.instantiate(
-            new OP721InitParameters(name, symbol, '', maxSupply),
+            new OP721InitParameters(name, symbol, baseURI, maxSupply, banner, icon, website, description),
         );
 
+        this.validateBurnAddress(burnAddress);
         this._burnAddress.value = burnAddress;
-        this._oracleKeyHash.value = oracleKeyHash;
+        this.addBurnAddress(burnAddress);
         this._collectionIdHash.value = collectionIdHash;
+        this._vaultMode.value = u256.fromU32(<u32>vaultMode);
+        this._tokenIdMode.value = u256.fromU32(<u32>tokenIdMode);
+        this._signaturePolicy.value = u256.fromU32(<u32>signaturePolicy);
+        for (let i: i32 = 0; i < parentInscriptionIds.length; i++) {
+            this.addParentInscription(parentInscriptionIds[i]);
+        }
+        this._contentBaseURI.value = contentBaseURI;
+        this.addOracleKey(oracleKeyHash);
+        this._oracleThreshold.value = u256.One;
+        this._oracleRotationDelay.value = u256.fromU64(DEFAULT_ORACLE_ROTATION_DELAY);
+        this._oracleGracePeriod.value = u256.fromU64(DEFAULT_ORACLE_GRACE_PERIOD);
+        this._storageVersion.value = u256.fromU32(STORAGE_VERSION);
+    }
+
+    /**
+     * Runs when an applied update's bytecode takes over.
+     *
+     * Migrates the stored data one layout version at a time, from the stored
+     * version up to STORAGE_VERSION, then records the new version. Each step
+     * reads its own part of `updateCalldata`, in order; a vault already at
+     * STORAGE_VERSION reads nothing.
+     *
+     * @param calldata - the migration data for every step that runs (see migrateToV1)
+     */
+    public override onUpdate(calldata: Calldata): void {
+        super.onUpdate(calldata);
+
+        const version: u32 = this.storageVersion();
+        if (version > STORAGE_VERSION) {
+            throw new Revert('OrdinalsVault: storage layout is newer than this code');
+        }
+
+        if (version < 1) {
+            this.migrateToV1(calldata);
+        }
+
+        this._storageVersion.value = u256.fromU32(STORAGE_VERSION);
     }
 
     /**
@@ -135,11 +791,16 @@ export class OrdinalsVault extends OP721 {
      *   sha256(contractAddress || writeU32(inscriptionId.len) || inscriptionId
      *          || burner || deadline_u64_BE || nonce_u256 || collectionIdHash_u256)
      *
+     * A v1 attestation does not name the burn address, so the burn is taken to
+     * have gone to the current primary burn address (getBurnAddress). Burns to
+     * other accepted addresses use recordBurnWithAttestationV3.
+     *
      * @param calldata - inscriptionId (string), burner (address),
      *                   deadline (u64, block height), nonce (u256),
      *                   collectionIdHash (u256, sha256 of collection slug — must match stored value),
-     *                   oraclePublicKey (bytes, ML-DSA-44 1312-byte key),
-     *                   oracleSig (bytes, ML-DSA-44 2420-byte signature)
+     *                   oraclePublicKey (bytes, 1312-byte ML-DSA-44 key under the
+     *                   default policy — see verifyOracleSignature),
+     *                   oracleSig (bytes, 2420-byte ML-DSA-44 signature under the default policy)
      * @returns success (bool)
      */
     @method(
@@ -152,6 +813,7 @@ export class OrdinalsVault extends OP721 {
         { name: 'oracleSig', type: ABIDataTypes.BYTES },
     )
     @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('BurnRecorded', 'BurnQueuedForReview')
     public recordBurnWithAttestation(calldata: Calldata): BytesWriter {
         const inscriptionId: string = calldata.readStringWithLength();
         const burner: Address = calldata.readAddress();
@@ -161,51 +823,19 @@ export class OrdinalsVault extends OP721 {
         const oraclePublicKey: Uint8Array = calldata.readBytesWithLength();
         const oracleSig: Uint8Array = calldata.readBytesWithLength();
 
-        // 1. Deadline check (block height — tamper-proof)
-        if (Blockchain.block.number > deadline) {
-            throw new Revert('OrdinalsVault: attestation expired');
-        }
-
-        // 2. Anti-replay: nonce must not have been used
-        if (!u256.eq(this._usedNonces.get(nonce), u256.Zero)) {
-            throw new Revert('OrdinalsVault: nonce already used');
-        }
-
-        // 3. Burn must not already be recorded
-        const key: u256 = this.hashString(inscriptionId);
-        if (!u256.eq(this._verifiedBurns.get(key), u256.Zero)) {
-            throw new Revert('OrdinalsVault: burn already recorded');
-        }
-        if (!u256.eq(this._mintedInscriptions.get(key), u256.Zero)) {
-            throw new Revert('OrdinalsVault: inscription already minted');
-        }
-
-        // 4. Verify collection binding — attestation must be for THIS collection
-        const storedCollectionId: u256 = this._collectionIdHash.value;
-        if (!u256.eq(storedCollectionId, u256.Zero)) {
-            // Collection-specific vault: collectionIdHash must match exactly
-            if (!u256.eq(collectionIdHash, storedCollectionId)) {
-                throw new Revert('OrdinalsVault: collection ID mismatch');
-            }
-        }
-
-        // 5. Verify oracle public key binding (sha256 of provided key == stored hash)
-        const pubKeyHashBytes: Uint8Array = sha256(oraclePublicKey);
-        const pubKeyHash: u256 = u256.fromBytes(pubKeyHashBytes, false);
-        if (!u256.eq(pubKeyHash, this._oracleKeyHash.value)) {
-            throw new Revert('OrdinalsVault: unknown oracle public key');
-        }
-
-        // 6. Verify ML-DSA-44 oracle signature
-        const hash: Uint8Array = this.buildAttestationHash(inscriptionId, burner, deadline, nonce, collectionIdHash);
-        if (!Blockchain.verifyMLDSASignature(MLDSASecurityLevel.Level2, oraclePublicKey, oracleSig, hash)) {
-            throw new Revert('OrdinalsVault: invalid oracle signature');
-        }
-
-        // 7. Mark nonce used and record burn
-        this._usedNonces.set(nonce, u256.One);
-        this._verifiedBurns.set(key, this.hashAddress(burner));
-        this._burnBlockHeights.set(key, u256.fromU64(Blockchain.block.number));
+        const oraclePublicKeys: Uint8Array[] = [oraclePublicKey];
+        const oracleSigs: Uint8Array[] = [oracleSig];
+        this.recordBurn(
+            inscriptionId,
+            burner,
+            deadline,
+            nonce,
+            collectionIdHash,
+            this.burnAddressHash(this._burnAddress.value),
+            false,
+            oraclePublicKeys,
+            oracleSigs,
+        );
 
         const writer: BytesWriter = new BytesWriter(1);
         writer.writeBoolean(true);
@@ -213,158 +843,3986 @@ export class OrdinalsVault extends OP721 {
     }
 
     /**
-     * Mints an OP721 token for a verified Ordinals burn.
+     * Records a verified Ordinals burn co-signed by several oracles (M-of-N).
      *
-     * Requirements:
-     * - Burn must have been recorded via recordBurnWithAttestation.
-     * - Caller must be the burner specified in the attestation.
-     * - At least 1 block must have elapsed since the burn was recorded.
+     * Every oracle signs the same `buildAttestationHash` digest. The call reverts
+     * unless at least `threshold` distinct registered oracles provided a valid
+     * signature under the signature policy. Keys and signatures are matched by
+     * position. As for recordBurnWithAttestation, the burn is taken to have
+     * gone to the primary burn address.
      *
-     * @param calldata - inscriptionId (string)
-     * @returns tokenId (u256)
+     * @param calldata - inscriptionId (string), burner (address),
+     *                   deadline (u64, block height), nonce (u256),
+     *                   collectionIdHash (u256),
+     *                   oraclePublicKeys (bytes[], laid out per the signature policy),
+     *                   oracleSigs (bytes[], laid out per the signature policy)
+     * @returns success (bool)
      */
-    @method({ name: 'inscriptionId', type: ABIDataTypes.STRING })
-    @returns({ name: 'tokenId', type: ABIDataTypes.UINT256 })
-    @emit('Transferred')
-    public mint(calldata: Calldata): BytesWriter {
+    @method(
+        { name: 'inscriptionId', type: ABIDataTypes.STRING },
+        { name: 'burner', type: ABIDataTypes.ADDRESS },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+        { name: 'nonce', type: ABIDataTypes.UINT256 },
+        { name: 'collectionIdHash', type: ABIDataTypes.UINT256 },
+        { name: 'oraclePublicKeys', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+        { name: 'oracleSigs', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('BurnRecorded', 'BurnQueuedForReview')
+    public recordBurnWithAttestations(calldata: Calldata): BytesWriter {
         const inscriptionId: string = calldata.readStringWithLength();
-        const caller: Address = Blockchain.tx.sender;
-        const key: u256 = this.hashString(inscriptionId);
-
-        const storedBurnerHash: u256 = this._verifiedBurns.get(key);
-        if (u256.eq(storedBurnerHash, u256.Zero)) {
-            throw new Revert('OrdinalsVault: burn not verified');
-        }
-
-        if (!u256.eq(storedBurnerHash, this.hashAddress(caller))) {
-            throw new Revert('OrdinalsVault: caller is not the recorded burner');
-        }
-
-        const burnBlock: u256 = this._burnBlockHeights.get(key);
-        const currentBlock: u256 = u256.fromU64(Blockchain.block.number);
-        if (!u256.gt(currentBlock, burnBlock)) {
-            throw new Revert('OrdinalsVault: must wait 1 block after attestation');
-        }
-
-        if (!u256.eq(this._mintedInscriptions.get(key), u256.Zero)) {
-            throw new Revert('OrdinalsVault: inscription already minted');
-        }
-
-        const tokenId: u256 = this._nextTokenId.value;
-        if (u256.ge(tokenId, this.maxSupply)) {
-            throw new Revert('OrdinalsVault: max supply reached');
-        }
+        const burner: Address = calldata.readAddress();
+        const deadline: u64 = calldata.readU64();
+        const nonce: u256 = calldata.readU256();
+        const collectionIdHash: u256 = calldata.readU256();
+        const oraclePublicKeys: Uint8Array[] = calldata.readArrayOfBuffer();
+        const oracleSigs: Uint8Array[] = calldata.readArrayOfBuffer();
 
-        this._mint(caller, tokenId);
-        this._nextTokenId.value = SafeMath.add(tokenId, u256.One);
-        this._setTokenURI(tokenId, inscriptionId);
-        this._mintedInscriptions.set(key, SafeMath.add(tokenId, u256.One));
+        this.recordBurn(
+            inscriptionId,
+            burner,
+            deadline,
+            nonce,
+            collectionIdHash,
+            this.burnAddressHash(this._burnAddress.value),
+            false,
+            oraclePublicKeys,
+            oracleSigs,
+        );
 
-        const writer: BytesWriter = new BytesWriter(32);
-        writer.writeU256(tokenId);
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
         return writer;
     }
 
     /**
-     * Rotates the oracle key hash. Only callable by the contract deployer.
+     * Records a verified burn whose attestation names the accepted burn address
+     * that received the inscription, so burns to any address in the burn
+     * address list can be recorded. Single oracle signatures are passed as
+     * one-element arrays.
      *
-     * To rotate the oracle:
-     *   1. Generate a new ML-DSA-44 keypair
-     *   2. Compute sha256(newPublicKey) as a u256
-     *   3. Call setOracle(newKeyHash)
-     *   4. Update the oracle plugin with the new seed
+     * The oracles sign buildAttestationHashV3: the v1 layout behind its own
+     * version tag, followed by burnAddressHash. The tag keeps v3 attestations
+     * from ever being valid v1 or v2 attestations.
      *
-     * @param calldata - newKeyHash (u256 = sha256 of new ML-DSA-44 public key)
+     * @param calldata - inscriptionId (string), burner (address),
+     *                   deadline (u64, block height), nonce (u256),
+     *                   collectionIdHash (u256),
+     *                   burnAddressHash (u256, sha256 of the accepted burn address that received the inscription),
+     *                   oraclePublicKeys (bytes[], laid out per the signature policy),
+     *                   oracleSigs (bytes[], laid out per the signature policy)
      * @returns success (bool)
      */
-    @method({ name: 'newKeyHash', type: ABIDataTypes.UINT256 })
+    @method(
+        { name: 'inscriptionId', type: ABIDataTypes.STRING },
+        { name: 'burner', type: ABIDataTypes.ADDRESS },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+        { name: 'nonce', type: ABIDataTypes.UINT256 },
+        { name: 'collectionIdHash', type: ABIDataTypes.UINT256 },
+        { name: 'burnAddressHash', type: ABIDataTypes.UINT256 },
+        { name: 'oraclePublicKeys', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+        { name: 'oracleSigs', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+    )
     @returns({ name: 'success', type: ABIDataTypes.BOOL })
-    public setOracle(calldata: Calldata): BytesWriter {
-        this.onlyDeployer(Blockchain.tx.sender);
-        const newKeyHash: u256 = calldata.readU256();
-        this._oracleKeyHash.value = newKeyHash;
+    @emit('BurnRecorded', 'BurnQueuedForReview')
+    public recordBurnWithAttestationV3(calldata: Calldata): BytesWriter {
+        const inscriptionId: string = calldata.readStringWithLength();
+        const burner: Address = calldata.readAddress();
+        const deadline: u64 = calldata.readU64();
+        const nonce: u256 = calldata.readU256();
+        const collectionIdHash: u256 = calldata.readU256();
+        const burnAddressHash: u256 = calldata.readU256();
+        const oraclePublicKeys: Uint8Array[] = calldata.readArrayOfBuffer();
+        const oracleSigs: Uint8Array[] = calldata.readArrayOfBuffer();
+
+        this.recordBurn(
+            inscriptionId,
+            burner,
+            deadline,
+            nonce,
+            collectionIdHash,
+            burnAddressHash,
+            true,
+            oraclePublicKeys,
+            oracleSigs,
+        );
+
         const writer: BytesWriter = new BytesWriter(1);
         writer.writeBoolean(true);
         return writer;
     }
 
     /**
-     * Returns the burn/mint status of an inscription.
+     * Records a verified burn whose attestation also carries Bitcoin-side
+     * provenance. The provenance is stored with the burn and attached to the
+     * token at mint, readable via getProvenance.
      *
-     * @param calldata - inscriptionId (string)
-     * @returns verified (bool), minted (bool)
+     * The oracles sign buildAttestationHashV2, which prefixes the version tag
+     * to the v1 layout and appends burnAddressHash and the provenance fields;
+     * v1 attestations (recordBurnWithAttestation/s) keep their untagged hash.
+     *
+     * @param calldata - inscriptionId (string), burner (address), deadline (u64),
+     *                   nonce (u256), collectionIdHash (u256),
+     *                   burnAddressHash (u256), burnTxid (u256),
+     *                   btcBlockHeight (u64), inscriptionNumber (i64),
+     *                   contentType (string), satNumber (u64),
+     *                   oraclePublicKeys (bytes[]), oracleSigs (bytes[])
+     * @returns success (bool)
      */
-    @method({ name: 'inscriptionId', type: ABIDataTypes.STRING })
-    @returns(
-        { name: 'verified', type: ABIDataTypes.BOOL },
-        { name: 'minted', type: ABIDataTypes.BOOL },
+    @method(
+        { name: 'inscriptionId', type: ABIDataTypes.STRING },
+        { name: 'burner', type: ABIDataTypes.ADDRESS },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+        { name: 'nonce', type: ABIDataTypes.UINT256 },
+        { name: 'collectionIdHash', type: ABIDataTypes.UINT256 },
+        { name: 'burnAddressHash', type: ABIDataTypes.UINT256 },
+        { name: 'burnTxid', type: ABIDataTypes.UINT256 },
+        { name: 'btcBlockHeight', type: ABIDataTypes.UINT64 },
+        { name: 'inscriptionNumber', type: ABIDataTypes.INT64 },
+        { name: 'contentType', type: ABIDataTypes.STRING },
+        { name: 'satNumber', type: ABIDataTypes.UINT64 },
+        { name: 'oraclePublicKeys', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+        { name: 'oracleSigs', type: ABIDataTypes.ARRAY_OF_BUFFERS },
     )
-    public getBurnStatus(calldata: Calldata): BytesWriter {
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('BurnRecorded', 'BurnQueuedForReview')
+    public recordBurnWithProvenance(calldata: Calldata): BytesWriter {
         const inscriptionId: string = calldata.readStringWithLength();
-        const key: u256 = this.hashString(inscriptionId);
+        const burner: Address = calldata.readAddress();
+        const deadline: u64 = calldata.readU64();
+        const nonce: u256 = calldata.readU256();
+        const collectionIdHash: u256 = calldata.readU256();
+        const burnAddressHash: u256 = calldata.readU256();
+        const burnTxid: u256 = calldata.readU256();
+        const btcBlockHeight: u64 = calldata.readU64();
+        const inscriptionNumber: i64 = calldata.readI64();
+        const contentType: string = calldata.readStringWithLength();
+        const satNumber: u64 = calldata.readU64();
+        const oraclePublicKeys: Uint8Array[] = calldata.readArrayOfBuffer();
+        const oracleSigs: Uint8Array[] = calldata.readArrayOfBuffer();
+
+        const key: u256 = this.checkBurnClaim(
+            inscriptionId,
+            burner,
+            deadline,
+            nonce,
+            collectionIdHash,
+            burnAddressHash,
+            true,
+        );
+        if (u256.eq(burnTxid, u256.Zero)) {
+            throw new Revert('OrdinalsVault: invalid burn txid');
+        }
+        if (inscriptionNumber < 0 && this.tokenIdMode() == TOKEN_ID_INSCRIPTION_NUMBER) {
+            throw new Revert('OrdinalsVault: cursed inscriptions have no token ID');
+        }
+
+        const hash: Uint8Array = this.buildAttestationHashV2(
+            inscriptionId,
+            burner,
+            deadline,
+            nonce,
+            collectionIdHash,
+            burnAddressHash,
+            burnTxid,
+            btcBlockHeight,
+            inscriptionNumber,
+            contentType,
+            satNumber,
+        );
+        this.verifyOracleSignatures(hash, oraclePublicKeys, oracleSigs);
+
+        this.storeBurn(key, inscriptionId, burner, nonce, collectionIdHash);
+
+        const index: u256 = SafeMath.add(this._provenanceCount.value, u256.One);
+        this._provenanceCount.value = index;
+        this._burnProvenance.set(key, index);
+        this._provenanceBurnTxid.set(index, burnTxid);
+        this._provenanceBlockHeight.set(index, u256.fromU64(btcBlockHeight));
+        this._provenanceInscriptionNumber.set(index, u256.fromU64(<u64>inscriptionNumber));
+        this._provenanceSatNumber.set(index, u256.fromU64(satNumber));
+        this.provenanceContentType(index).value = contentType;
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Records a burn performed by the calling transaction itself.
+     *
+     * Every OPNet interaction is a Bitcoin transaction, so the burner can spend
+     * the inscription's UTXO in the same transaction that calls the vault. The
+     * contract then checks on its own that:
+     *   - one of the transaction's inputs spends `outpointTxid:outpointIndex`
+     *   - one of its outputs pays the attested burn address
+     * and the oracles only attest which inscription sits on that outpoint
+     * (buildOutpointAttestationHash). The burner is the caller (tx.sender).
+     *
+     * Ordinals assign sats first-in-first-out, and input values are not
+     * visible on-chain: the wallet building the transaction must order its
+     * inputs and outputs so the inscribed sat lands in the burn output.
+     *
+     * @param calldata - inscriptionId (string), outpointTxid (u256, txid in the
+     *                   byte order of `Blockchain.tx.inputs[i].txId`),
+     *                   outpointIndex (u16), deadline (u64), nonce (u256),
+     *                   collectionIdHash (u256), burnAddressHash (u256, the
+     *                   output must pay this address), oraclePublicKeys (bytes[]),
+     *                   oracleSigs (bytes[])
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'inscriptionId', type: ABIDataTypes.STRING },
+        { name: 'outpointTxid', type: ABIDataTypes.UINT256 },
+        { name: 'outpointIndex', type: ABIDataTypes.UINT16 },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+        { name: 'nonce', type: ABIDataTypes.UINT256 },
+        { name: 'collectionIdHash', type: ABIDataTypes.UINT256 },
+        { name: 'burnAddressHash', type: ABIDataTypes.UINT256 },
+        { name: 'oraclePublicKeys', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+        { name: 'oracleSigs', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('BurnRecorded', 'BurnQueuedForReview')
+    public recordBurnInTransaction(calldata: Calldata): BytesWriter {
+        const inscriptionId: string = calldata.readStringWithLength();
+        const outpointTxid: u256 = calldata.readU256();
+        const outpointIndex: u16 = calldata.readU16();
+        const deadline: u64 = calldata.readU64();
+        const nonce: u256 = calldata.readU256();
+        const collectionIdHash: u256 = calldata.readU256();
+        const burnAddressHash: u256 = calldata.readU256();
+        const oraclePublicKeys: Uint8Array[] = calldata.readArrayOfBuffer();
+        const oracleSigs: Uint8Array[] = calldata.readArrayOfBuffer();
+
+        const burner: Address = Blockchain.tx.sender;
+        const key: u256 = this.checkBurnClaim(
+            inscriptionId,
+            burner,
+            deadline,
+            nonce,
+            collectionIdHash,
+            burnAddressHash,
+            false,
+        );
+
+        if (!this.spendsOutpoint(outpointTxid, outpointIndex)) {
+            throw new Revert('OrdinalsVault: inscription outpoint not spent by this transaction');
+        }
+        if (!this.paysBurnAddress(this.acceptedBurnAddress(burnAddressHash))) {
+            throw new Revert('OrdinalsVault: no output pays the burn address');
+        }
+
+        const hash: Uint8Array = this.buildOutpointAttestationHash(
+            inscriptionId,
+            outpointTxid,
+            outpointIndex,
+            deadline,
+            nonce,
+            collectionIdHash,
+            burnAddressHash,
+        );
+        this.verifyOracleSignatures(hash, oraclePublicKeys, oracleSigs);
+
+        this.storeBurn(key, inscriptionId, burner, nonce, collectionIdHash);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Accepts an oracle-signed Merkle root covering every burn the oracles saw
+     * in a Bitcoin block range, so one threshold ML-DSA verification pays for
+     * the whole batch. Individual burns are then claimed with recordBurnWithProof.
+     *
+     * Requirements:
+     * - deadline >= current block height
+     * - fromBlock <= toBlock, root non-zero and not already accepted
+     * - at least `threshold` distinct oracles signed buildAttestationRootHash
+     *
+     * @param calldata - root (u256), fromBlock (u64), toBlock (u64),
+     *                   deadline (u64, block height), oraclePublicKeys (bytes[]),
+     *                   oracleSigs (bytes[])
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'root', type: ABIDataTypes.UINT256 },
+        { name: 'fromBlock', type: ABIDataTypes.UINT64 },
+        { name: 'toBlock', type: ABIDataTypes.UINT64 },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+        { name: 'oraclePublicKeys', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+        { name: 'oracleSigs', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('AttestationRootAccepted')
+    public submitAttestationRoot(calldata: Calldata): BytesWriter {
+        const root: u256 = calldata.readU256();
+        const fromBlock: u64 = calldata.readU64();
+        const toBlock: u64 = calldata.readU64();
+        const deadline: u64 = calldata.readU64();
+        const oraclePublicKeys: Uint8Array[] = calldata.readArrayOfBuffer();
+        const oracleSigs: Uint8Array[] = calldata.readArrayOfBuffer();
+
+        this.whenNotPaused(PAUSE_ATTEST);
+        if (Blockchain.block.number > deadline) {
+            throw new Revert('OrdinalsVault: attestation expired');
+        }
+        if (u256.eq(root, u256.Zero)) {
+            throw new Revert('OrdinalsVault: invalid root');
+        }
+        if (fromBlock > toBlock) {
+            throw new Revert('OrdinalsVault: invalid block range');
+        }
+        if (!u256.eq(this._attestationRootDeadline.get(root), u256.Zero)) {
+            throw new Revert('OrdinalsVault: root already accepted');
+        }
+
+        const hash: Uint8Array = this.buildAttestationRootHash(root, fromBlock, toBlock, deadline);
+        this.verifyOracleSignatures(hash, oraclePublicKeys, oracleSigs);
+
+        // deadline >= current block > 0, so a stored deadline doubles as the "accepted" flag
+        this._attestationRootDeadline.set(root, u256.fromU64(deadline));
+        this._attestationRootFromBlock.set(root, u256.fromU64(fromBlock));
+        this._attestationRootToBlock.set(root, u256.fromU64(toBlock));
+
+        this.emitEvent(new AttestationRootAcceptedEvent(root, fromBlock, toBlock, deadline));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Records a verified burn covered by an accepted attestation root.
+     *
+     * The leaf is buildBurnLeaf(inscriptionId, burner, nonce, collectionIdHash, burnAddressHash);
+     * `proof` holds the sibling hashes from the leaf up to the root, each pair
+     * hashed in sorted order. The root's deadline applies to every leaf, and
+     * the nonce, duplicate-burn and collection-binding checks are the same as
+     * for recordBurnWithAttestation.
+     *
+     * @param calldata - inscriptionId (string), burner (address), nonce (u256),
+     *                   collectionIdHash (u256), burnAddressHash (u256),
+     *                   root (u256), proof (u256[])
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'inscriptionId', type: ABIDataTypes.STRING },
+        { name: 'burner', type: ABIDataTypes.ADDRESS },
+        { name: 'nonce', type: ABIDataTypes.UINT256 },
+        { name: 'collectionIdHash', type: ABIDataTypes.UINT256 },
+        { name: 'burnAddressHash', type: ABIDataTypes.UINT256 },
+        { name: 'root', type: ABIDataTypes.UINT256 },
+        { name: 'proof', type: ABIDataTypes.ARRAY_OF_UINT256 },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('BurnRecorded', 'BurnQueuedForReview')
+    public recordBurnWithProof(calldata: Calldata): BytesWriter {
+        const inscriptionId: string = calldata.readStringWithLength();
+        const burner: Address = calldata.readAddress();
+        const nonce: u256 = calldata.readU256();
+        const collectionIdHash: u256 = calldata.readU256();
+        const burnAddressHash: u256 = calldata.readU256();
+        const root: u256 = calldata.readU256();
+        const proof: u256[] = calldata.readU256Array();
+
+        const rootDeadline: u256 = this._attestationRootDeadline.get(root);
+        if (u256.eq(rootDeadline, u256.Zero)) {
+            throw new Revert('OrdinalsVault: unknown attestation root');
+        }
+
+        const key: u256 = this.checkBurnClaim(
+            inscriptionId,
+            burner,
+            rootDeadline.toU64(),
+            nonce,
+            collectionIdHash,
+            burnAddressHash,
+            false,
+        );
+
+        if (proof.length > MAX_MERKLE_PROOF_LENGTH) {
+            throw new Revert('OrdinalsVault: proof too long');
+        }
+        const leaf: u256 = this.buildBurnLeaf(inscriptionId, burner, nonce, collectionIdHash, burnAddressHash);
+        if (!u256.eq(this.computeMerkleRoot(leaf, proof), root)) {
+            throw new Revert('OrdinalsVault: invalid Merkle proof');
+        }
+
+        this.storeBurn(key, inscriptionId, burner, nonce, collectionIdHash);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Withdraws an accepted attestation root, e.g. after an oracle compromise.
+     * Burns already recorded from it are unaffected.
+     *
+     * @param calldata - root (u256)
+     * @returns success (bool)
+     */
+    @method({ name: 'root', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('AttestationRootRevoked')
+    public revokeAttestationRoot(calldata: Calldata): BytesWriter {
+        this._roles.onlyRole(ROLE_ORACLE_MANAGER, Blockchain.tx.sender);
+
+        const root: u256 = calldata.readU256();
+        if (u256.eq(this._attestationRootDeadline.get(root), u256.Zero)) {
+            throw new Revert('OrdinalsVault: unknown attestation root');
+        }
+
+        this._attestationRootDeadline.delete(root);
+        this._attestationRootFromBlock.delete(root);
+        this._attestationRootToBlock.delete(root);
+
+        this.emitEvent(new AttestationRootRevokedEvent(root, Blockchain.block.number));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Returns an attestation root's status.
+     *
+     * @param calldata - root (u256)
+     * @returns accepted (bool), fromBlock (u64), toBlock (u64), deadline (u64)
+     */
+    @method({ name: 'root', type: ABIDataTypes.UINT256 })
+    @returns(
+        { name: 'accepted', type: ABIDataTypes.BOOL },
+        { name: 'fromBlock', type: ABIDataTypes.UINT64 },
+        { name: 'toBlock', type: ABIDataTypes.UINT64 },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+    )
+    public getAttestationRoot(calldata: Calldata): BytesWriter {
+        const root: u256 = calldata.readU256();
+        const deadline: u256 = this._attestationRootDeadline.get(root);
+
+        const writer: BytesWriter = new BytesWriter(1 + 8 + 8 + 8);
+        writer.writeBoolean(!u256.eq(deadline, u256.Zero));
+        writer.writeU64(this._attestationRootFromBlock.get(root).toU64());
+        writer.writeU64(this._attestationRootToBlock.get(root).toU64());
+        writer.writeU64(deadline.toU64());
+        return writer;
+    }
+
+    /**
+     * Mints an OP721 token for a verified Ordinals burn.
+     *
+     * Requirements:
+     * - Burn must have been recorded via recordBurnWithAttestation.
+     * - Caller must be the burner specified in the attestation, or the
+     *   address the mint right was transferred to.
+     * - At least 1 block must have elapsed since the burn was recorded.
+     * - If a bridge fee is set and the caller is not exempt, the caller must
+     *   have approved this vault for the fee (see getFeeConfig).
+     *
+     * @param calldata - inscriptionId (string)
+     * @returns tokenId (u256)
+     */
+    @method({ name: 'inscriptionId', type: ABIDataTypes.STRING })
+    @returns({ name: 'tokenId', type: ABIDataTypes.UINT256 })
+    @emit('Transferred', 'Mint')
+    public mint(calldata: Calldata): BytesWriter {
+        const inscriptionId: string = calldata.readStringWithLength();
+        const caller: Address = Blockchain.tx.sender;
+        const key: u256 = this.inscriptionKey(inscriptionId);
+
+        this.onlyRecordedBurner(key, caller);
+
+        const tokenId: u256 = this.mintBridged(inscriptionId, key, caller);
+        this.chargeBridgeFee(caller);
+
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(tokenId);
+        return writer;
+    }
+
+    /**
+     * Same as mint, but the token goes to `recipient` instead of the burner.
+     * The burner (caller) still pays the bridge fee.
+     *
+     * @param calldata - inscriptionId (string), recipient (address)
+     * @returns tokenId (u256)
+     */
+    @method(
+        { name: 'inscriptionId', type: ABIDataTypes.STRING },
+        { name: 'recipient', type: ABIDataTypes.ADDRESS },
+    )
+    @returns({ name: 'tokenId', type: ABIDataTypes.UINT256 })
+    @emit('Transferred', 'Mint')
+    public mintTo(calldata: Calldata): BytesWriter {
+        const inscriptionId: string = calldata.readStringWithLength();
+        const recipient: Address = calldata.readAddress();
+        if (recipient.isZero()) {
+            throw new Revert('OrdinalsVault: invalid recipient');
+        }
+
+        const key: u256 = this.inscriptionKey(inscriptionId);
+        this.onlyRecordedBurner(key, Blockchain.tx.sender);
+
+        const tokenId: u256 = this.mintBridged(inscriptionId, key, recipient);
+        this.chargeBridgeFee(Blockchain.tx.sender);
+
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(tokenId);
+        return writer;
+    }
+
+    /**
+     * Mints on behalf of the burner from a signed off-chain intent, so a burner
+     * without BTC or an OPNet wallet can have any relayer finish the bridge.
+     *
+     * The token always goes to the recorded burner. Optionally the burner
+     * authorizes an OP20 fee, pulled from the burner with `transferFrom` and
+     * paid to the relayer (tx.sender) in the same call — the burner must have
+     * approved this vault for at least `fee` on `feeToken`. The bridge fee
+     * (getFeeConfig), if any, is pulled from the burner as well; the intent
+     * commits to its token and amount, so a fee change voids pending intents.
+     *
+     * Intent hash (OP712-style, using this vault's domain separator):
+     *   structHash = sha256(sha256(MINT_FOR_TYPE) || inscriptionKey || burner
+     *                       || feeToken || fee_u256 || bridgeFeeToken
+     *                       || bridgeFee_u256 || nonce_u256 || deadline_u64)
+     *   hash       = sha256(0x1901 || domainSeparator || structHash)
+     *
+     * The signature must be ML-DSA-44 by the burner's registered key. Schnorr
+     * is refused: a tweaked key passed in calldata is not bound to the burner
+     * address, so anyone could sign with a key of their own. `nonce` is the
+     * inscription's mint right nonce (getBurnStatus): a mint right transfer
+     * bumps it, so intents signed before a hand-off can no longer be used.
+     *
+     * @param calldata - inscriptionId (string), feeToken (address, zero = no fee), fee (u256),
+     *                   deadline (u64, block height), signature (bytes)
+     * @returns tokenId (u256)
+     */
+    @method(
+        { name: 'inscriptionId', type: ABIDataTypes.STRING },
+        { name: 'feeToken', type: ABIDataTypes.ADDRESS },
+        { name: 'fee', type: ABIDataTypes.UINT256 },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+        { name: 'signature', type: ABIDataTypes.BYTES },
+    )
+    @returns({ name: 'tokenId', type: ABIDataTypes.UINT256 })
+    @emit('Transferred', 'Mint')
+    public mintFor(calldata: Calldata): BytesWriter {
+        const inscriptionId: string = calldata.readStringWithLength();
+        const feeToken: Address = calldata.readAddress();
+        const fee: u256 = calldata.readU256();
+        const deadline: u64 = calldata.readU64();
+        const signature: Uint8Array = calldata.readBytesWithLength();
+
+        if (Blockchain.block.number > deadline) {
+            throw new Revert('OrdinalsVault: mint intent expired');
+        }
+
+        const key: u256 = this.inscriptionKey(inscriptionId);
+        const storedBurner: u256 = this._verifiedBurns.get(key);
+        if (u256.eq(storedBurner, u256.Zero)) {
+            throw new Revert('OrdinalsVault: burn not verified');
+        }
+
+        const hasFee: bool = !u256.eq(fee, u256.Zero);
+        if (hasFee && feeToken.isZero()) {
+            throw new Revert('OrdinalsVault: fee token required');
+        }
+
+        const burner: Address = this._addressFromU256(storedBurner);
+        const hash: Uint8Array = this.buildMintForHash(
+            key,
+            burner,
+            feeToken,
+            fee,
+            this._mintRightNonce.get(key),
+            deadline,
+        );
+        if (!Blockchain.verifyMLDSASignature(MLDSASecurityLevel.Level2, burner.mldsaPublicKey, signature, hash)) {
+            throw new Revert('OrdinalsVault: invalid mint intent signature');
+        }
+
+        const tokenId: u256 = this.mintBridged(inscriptionId, key, burner);
+        this.chargeBridgeFee(burner);
+
+        if (hasFee) {
+            TransferHelper.transferFrom(feeToken, burner, Blockchain.tx.sender, fee);
+        }
+
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(tokenId);
+        return writer;
+    }
+
+    /**
+     * Hands the unclaimed mint right of a recorded burn to another address,
+     * e.g. when the burner wants to claim from a different wallet. Recorded
+     * burner only.
+     *
+     * @param calldata - inscriptionId (string), newBurner (address)
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'inscriptionId', type: ABIDataTypes.STRING },
+        { name: 'newBurner', type: ABIDataTypes.ADDRESS },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('MintRightTransferred')
+    public transferMintRight(calldata: Calldata): BytesWriter {
+        const inscriptionId: string = calldata.readStringWithLength();
+        const newBurner: Address = calldata.readAddress();
+        const caller: Address = Blockchain.tx.sender;
+        const key: u256 = this.inscriptionKey(inscriptionId);
+
+        this.onlyRecordedBurner(key, caller);
+        this.moveMintRight(key, inscriptionId, caller, newBurner);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Hands the unclaimed mint right to another address from a burner-signed
+     * off-chain intent that any relayer can submit.
+     *
+     * Intent hash (OP712-style, using this vault's domain separator):
+     *   structHash = sha256(sha256(MINT_RIGHT_TRANSFER_TYPE) || inscriptionKey
+     *                       || burner || newBurner || nonce_u256 || deadline_u64)
+     *   hash       = sha256(0x1901 || domainSeparator || structHash)
+     *
+     * `nonce` is the inscription's mint right nonce (getBurnStatus), bumped on
+     * every transfer so an intent cannot be replayed if the right comes back.
+     * The signature must be ML-DSA-44 by the burner's registered key, as for
+     * mintFor: a Schnorr key passed in calldata would not be bound to the
+     * burner address.
+     *
+     * @param calldata - inscriptionId (string), newBurner (address),
+     *                   deadline (u64, block height), signature (bytes)
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'inscriptionId', type: ABIDataTypes.STRING },
+        { name: 'newBurner', type: ABIDataTypes.ADDRESS },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+        { name: 'signature', type: ABIDataTypes.BYTES },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('MintRightTransferred')
+    public transferMintRightBySignature(calldata: Calldata): BytesWriter {
+        const inscriptionId: string = calldata.readStringWithLength();
+        const newBurner: Address = calldata.readAddress();
+        const deadline: u64 = calldata.readU64();
+        const signature: Uint8Array = calldata.readBytesWithLength();
+
+        if (Blockchain.block.number > deadline) {
+            throw new Revert('OrdinalsVault: transfer intent expired');
+        }
+
+        const key: u256 = this.inscriptionKey(inscriptionId);
+        const storedBurner: u256 = this._verifiedBurns.get(key);
+        if (u256.eq(storedBurner, u256.Zero)) {
+            throw new Revert('OrdinalsVault: burn not verified');
+        }
+
+        const burner: Address = this._addressFromU256(storedBurner);
+        const hash: Uint8Array = this.buildMintRightTransferHash(
+            key,
+            burner,
+            newBurner,
+            this._mintRightNonce.get(key),
+            deadline,
+        );
+        if (!Blockchain.verifyMLDSASignature(MLDSASecurityLevel.Level2, burner.mldsaPublicKey, signature, hash)) {
+            throw new Revert('OrdinalsVault: invalid transfer intent signature');
+        }
+
+        this.moveMintRight(key, inscriptionId, burner, newBurner);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Burns a custody-mode token and asks the oracle to release the inscription.
+     *
+     * Callable by the token owner or an approved operator. The token is burned
+     * immediately; the inscription stays in custody until the oracle sends it
+     * to `btcDestination` and its release confirmation is submitted.
+     *
+     * @param calldata - tokenId (u256), btcDestination (string, Bitcoin address
+     *                   valid for the current network)
+     * @returns deadlineBlock (u64) — block after which the redemption can be disputed
+     */
+    @method(
+        { name: 'tokenId', type: ABIDataTypes.UINT256 },
+        { name: 'btcDestination', type: ABIDataTypes.STRING },
+    )
+    @returns({ name: 'deadlineBlock', type: ABIDataTypes.UINT64 })
+    @emit('Burned', 'RedemptionRequested')
+    public requestRedemption(calldata: Calldata): BytesWriter {
+        const tokenId: u256 = calldata.readU256();
+        const btcDestination: string = calldata.readStringWithLength();
+
+        this.whenNotPaused(PAUSE_TRANSFER);
+        if (this._vaultMode.value.toU32() != <u32>VAULT_MODE_CUSTODY) {
+            throw new Revert('OrdinalsVault: redemption requires custody mode');
+        }
+        if (!Blockchain.validateBitcoinAddress(btcDestination)) {
+            throw new Revert('OrdinalsVault: invalid Bitcoin destination');
+        }
+
+        const inscriptionId: string = this.tokenInscription(tokenId).value;
+        if (inscriptionId.length == 0) {
+            throw new Revert('OrdinalsVault: token has no bridged inscription');
+        }
+
+        const requester: Address = Blockchain.tx.sender;
+        this._burn(tokenId);
+
+        const currentBlock: u64 = Blockchain.block.number;
+        this._redemptionStatus.set(tokenId, u256.fromU32(<u32>REDEMPTION_PENDING));
+        this._redemptionRequester.set(tokenId, this._u256FromAddress(requester));
+        this._redemptionBlock.set(tokenId, u256.fromU64(currentBlock));
+        this.redemptionDestination(tokenId).value = btcDestination;
+
+        const deadlineBlock: u64 = currentBlock + REDEMPTION_TIMEOUT;
+        this.emitEvent(
+            new RedemptionRequestedEvent(tokenId, inscriptionId, requester, btcDestination, deadlineBlock),
+        );
+
+        const writer: BytesWriter = new BytesWriter(8);
+        writer.writeU64(deadlineBlock);
+        return writer;
+    }
+
+    /**
+     * Marks a redemption complete using the oracle's signed release confirmation.
+     *
+     * Like attestations, the confirmation is signed off-chain and anyone may
+     * submit it. At least `threshold` distinct oracles must sign. Once complete,
+     * the inscription's burn/mint records are cleared so it can be bridged again.
+     * A disputed redemption can still be completed by a late confirmation.
+     *
+     * Release hash (must match the oracle plugin exactly):
+     *   sha256(sha256("OrdinalsVault:RedemptionRelease") || contractAddress
+     *          || tokenId_u256 || releaseTxid_u256
+     *          || writeU32(btcDestination.len) || btcDestination)
+     *
+     * @param calldata - tokenId (u256), releaseTxid (u256, Bitcoin txid),
+     *                   oraclePublicKeys (bytes[]), oracleSigs (bytes[])
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'tokenId', type: ABIDataTypes.UINT256 },
+        { name: 'releaseTxid', type: ABIDataTypes.UINT256 },
+        { name: 'oraclePublicKeys', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+        { name: 'oracleSigs', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('RedemptionCompleted')
+    public confirmRedemption(calldata: Calldata): BytesWriter {
+        const tokenId: u256 = calldata.readU256();
+        const releaseTxid: u256 = calldata.readU256();
+        const oraclePublicKeys: Uint8Array[] = calldata.readArrayOfBuffer();
+        const oracleSigs: Uint8Array[] = calldata.readArrayOfBuffer();
+
+        // Release confirmations are oracle-signed, so they stop with attestations
+        this.whenNotPaused(PAUSE_ATTEST);
+
+        const status: u8 = <u8>this._redemptionStatus.get(tokenId).toU32();
+        if (status != REDEMPTION_PENDING && status != REDEMPTION_DISPUTED) {
+            throw new Revert('OrdinalsVault: no open redemption for token');
+        }
+        if (u256.eq(releaseTxid, u256.Zero)) {
+            throw new Revert('OrdinalsVault: invalid release txid');
+        }
+
+        const btcDestination: string = this.redemptionDestination(tokenId).value;
+        const hash: Uint8Array = this.buildReleaseHash(tokenId, releaseTxid, btcDestination);
+        this.verifyOracleSignatures(hash, oraclePublicKeys, oracleSigs);
+
+        this._redemptionStatus.set(tokenId, u256.fromU32(<u32>REDEMPTION_COMPLETED));
+        this._redemptionReleaseTxid.set(tokenId, releaseTxid);
+
+        // The inscription has left custody — allow it to be bridged again later
+        const key: u256 = this.inscriptionKey(this.tokenInscription(tokenId).value);
+        this._verifiedBurns.delete(key);
+        this._burnBlockHeights.delete(key);
+        this._mintedInscriptions.delete(key);
+        this._burnProvenance.delete(key);
+        this._burnParent.delete(key);
+        this._burnNonce.delete(key);
+
+        // Keep counting rather than resetting, so mint intents signed for the
+        // previous bridge of this inscription can never verify again
+        this._mintRightNonce.set(key, SafeMath.add(this._mintRightNonce.get(key), u256.One));
+
+        this.emitEvent(new RedemptionCompletedEvent(tokenId, releaseTxid));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Flags a redemption whose release was not confirmed within REDEMPTION_TIMEOUT blocks.
+     * Callable by anyone once the deadline has passed; emits RedemptionDisputed.
+     *
+     * @param calldata - tokenId (u256)
+     * @returns success (bool)
+     */
+    @method({ name: 'tokenId', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('RedemptionDisputed')
+    public disputeRedemption(calldata: Calldata): BytesWriter {
+        const tokenId: u256 = calldata.readU256();
+
+        if (this._redemptionStatus.get(tokenId).toU32() != <u32>REDEMPTION_PENDING) {
+            throw new Revert('OrdinalsVault: redemption is not pending');
+        }
+
+        const deadlineBlock: u64 = this._redemptionBlock.get(tokenId).toU64() + REDEMPTION_TIMEOUT;
+        if (Blockchain.block.number <= deadlineBlock) {
+            throw new Revert('OrdinalsVault: redemption deadline not reached');
+        }
+
+        this._redemptionStatus.set(tokenId, u256.fromU32(<u32>REDEMPTION_DISPUTED));
+
+        const requester: Address = this._addressFromU256(this._redemptionRequester.get(tokenId));
+        this.emitEvent(new RedemptionDisputedEvent(tokenId, requester, Blockchain.block.number));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Returns the redemption record for a token.
+     * A pending redemption past its deadline is reported as disputed even if
+     * disputeRedemption has not been called yet.
+     *
+     * @param calldata - tokenId (u256)
+     * @returns status (u8: 0 none, 1 pending, 2 completed, 3 disputed),
+     *          requester (address), btcDestination (string),
+     *          requestBlock (u64), releaseTxid (u256)
+     */
+    @method({ name: 'tokenId', type: ABIDataTypes.UINT256 })
+    @returns(
+        { name: 'status', type: ABIDataTypes.UINT8 },
+        { name: 'requester', type: ABIDataTypes.ADDRESS },
+        { name: 'btcDestination', type: ABIDataTypes.STRING },
+        { name: 'requestBlock', type: ABIDataTypes.UINT64 },
+        { name: 'releaseTxid', type: ABIDataTypes.UINT256 },
+    )
+    public getRedemption(calldata: Calldata): BytesWriter {
+        const tokenId: u256 = calldata.readU256();
+
+        let status: u8 = <u8>this._redemptionStatus.get(tokenId).toU32();
+        const requestBlock: u64 = this._redemptionBlock.get(tokenId).toU64();
+        if (status == REDEMPTION_PENDING && Blockchain.block.number > requestBlock + REDEMPTION_TIMEOUT) {
+            status = REDEMPTION_DISPUTED;
+        }
+
+        const btcDestination: string = this.redemptionDestination(tokenId).value;
+        const requester: Address = this._addressFromU256(this._redemptionRequester.get(tokenId));
+
+        const writer: BytesWriter = new BytesWriter(
+            1 + 32 + 4 + String.UTF8.byteLength(btcDestination) + 8 + 32,
+        );
+        writer.writeU8(status);
+        writer.writeAddress(requester);
+        writer.writeStringWithLength(btcDestination);
+        writer.writeU64(requestBlock);
+        writer.writeU256(this._redemptionReleaseTxid.get(tokenId));
+        return writer;
+    }
+
+    /**
+     * Returns the vault mode chosen at deployment.
+     *
+     * @returns vaultMode (u8: 0 burn, 1 custody)
+     */
+    @method()
+    @returns({ name: 'vaultMode', type: ABIDataTypes.UINT8 })
+    public getVaultMode(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeU8(<u8>this._vaultMode.value.toU32());
+        return writer;
+    }
+
+    /**
+     * Returns how token IDs are chosen, fixed at deployment.
+     *
+     * @returns tokenIdMode (u8: 0 sequential, 1 inscription number, 2 collection index)
+     */
+    @method()
+    @returns({ name: 'tokenIdMode', type: ABIDataTypes.UINT8 })
+    public getTokenIdMode(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeU8(this.tokenIdMode());
+        return writer;
+    }
+
+    /**
+     * Returns which signatures oracles must produce, fixed at deployment.
+     * Every policy signs the same attestation hashes; only the key and
+     * signature layout passed in calldata differs (see verifyOracleSignature).
+     *
+     * @returns signaturePolicy (u8: 0 ML-DSA-44, 1 Schnorr, 2 hybrid)
+     */
+    @method()
+    @returns({ name: 'signaturePolicy', type: ABIDataTypes.UINT8 })
+    public getSignaturePolicy(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeU8(this.signaturePolicy());
+        return writer;
+    }
+
+    /**
+     * Proposes an oracle key rotation and starts its timelock. Oracle manager only.
+     *
+     * Rotation is two-phase so users can react before a new key takes effect:
+     *   1. proposeOracleRotation(oldKeyHash, newKeyHash) — emits OracleRotationProposed
+     *   2. wait `rotationDelay` blocks
+     *   3. applyOracleRotation(newKeyHash) — emits OracleRotationApplied
+     * After applying, attestations signed by the outgoing key are still accepted
+     * for `gracePeriod` blocks, so users holding them mid-flight are not stranded.
+     *
+     * Pass oldKeyHash = 0 to add a new oracle instead of replacing one.
+     *
+     * @param calldata - oldKeyHash (u256, registered oracle or 0),
+     *                   newKeyHash (u256 = sha256 of the new ML-DSA-44 public key)
+     * @returns effectiveBlock (u64)
+     */
+    @method(
+        { name: 'oldKeyHash', type: ABIDataTypes.UINT256 },
+        { name: 'newKeyHash', type: ABIDataTypes.UINT256 },
+    )
+    @returns({ name: 'effectiveBlock', type: ABIDataTypes.UINT64 })
+    @emit('OracleRotationProposed')
+    public proposeOracleRotation(calldata: Calldata): BytesWriter {
+        this._roles.onlyRole(ROLE_ORACLE_MANAGER, Blockchain.tx.sender);
+        const oldKeyHash: u256 = calldata.readU256();
+        const newKeyHash: u256 = calldata.readU256();
+
+        if (!u256.eq(this._pendingOracleBlock.value, u256.Zero)) {
+            throw new Revert('OrdinalsVault: oracle rotation already pending');
+        }
+        if (u256.eq(newKeyHash, u256.Zero)) {
+            throw new Revert('OrdinalsVault: invalid oracle key hash');
+        }
+        if (!u256.eq(this._oracleIndex.get(newKeyHash), u256.Zero)) {
+            throw new Revert('OrdinalsVault: oracle already registered');
+        }
+        if (!u256.eq(oldKeyHash, u256.Zero) && u256.eq(this._oracleIndex.get(oldKeyHash), u256.Zero)) {
+            throw new Revert('OrdinalsVault: oracle not registered');
+        }
+
+        const currentBlock: u64 = Blockchain.block.number;
+        const effectiveBlock: u64 = currentBlock + this.oracleRotationDelay();
+
+        this._pendingOracleOld.value = oldKeyHash;
+        this._pendingOracleNew.value = newKeyHash;
+        this._pendingOracleBlock.value = u256.fromU64(currentBlock);
+
+        this.emitEvent(new OracleRotationProposedEvent(oldKeyHash, newKeyHash, currentBlock, effectiveBlock));
+
+        const writer: BytesWriter = new BytesWriter(8);
+        writer.writeU64(effectiveBlock);
+        return writer;
+    }
+
+    /**
+     * Applies the pending oracle rotation once its timelock has elapsed. Oracle manager only.
+     *
+     * newKeyHash must match the pending proposal (guards against front-running a
+     * cancel + re-propose). The outgoing key stays valid for `gracePeriod` blocks,
+     * counting as the same oracle as its successor. Applying a new rotation ends
+     * any previous grace period.
+     *
+     * A removal proposed through removeOracle is applied with newKeyHash = 0. It
+     * has no grace period and reverts if the remaining set would be smaller than
+     * the threshold at that point.
+     *
+     * @param calldata - newKeyHash (u256, must match the pending rotation)
+     * @returns graceEndBlock (u64)
+     */
+    @method({ name: 'newKeyHash', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'graceEndBlock', type: ABIDataTypes.UINT64 })
+    @emit('OracleRotationApplied', 'OracleChanged')
+    public applyOracleRotation(calldata: Calldata): BytesWriter {
+        this._roles.onlyRole(ROLE_ORACLE_MANAGER, Blockchain.tx.sender);
+        const newKeyHash: u256 = calldata.readU256();
+
+        const submitBlock: u256 = this._pendingOracleBlock.value;
+        if (u256.eq(submitBlock, u256.Zero)) {
+            throw new Revert('OrdinalsVault: no pending oracle rotation');
+        }
+        const currentBlock: u64 = Blockchain.block.number;
+        if (currentBlock < submitBlock.toU64() + this.oracleRotationDelay()) {
+            throw new Revert('OrdinalsVault: oracle rotation delay not elapsed');
+        }
+        if (!u256.eq(newKeyHash, this._pendingOracleNew.value)) {
+            throw new Revert('OrdinalsVault: key does not match pending rotation');
+        }
+
+        const oldKeyHash: u256 = this._pendingOracleOld.value;
+        this.clearPendingOracleRotation();
+
+        let graceEndBlock: u64 = 0;
+        if (u256.eq(oldKeyHash, u256.Zero)) {
+            this.addOracleKey(newKeyHash);
+        } else if (u256.eq(newKeyHash, u256.Zero)) {
+            const remaining: u256 = SafeMath.sub(this._oracleCount.value, u256.One);
+            if (u256.lt(remaining, this._oracleThreshold.value)) {
+                throw new Revert('OrdinalsVault: removal would leave fewer oracles than threshold');
+            }
+
+            this.removeOracleKey(oldKeyHash);
+        } else {
+            this.replaceOracleKey(oldKeyHash, newKeyHash);
+
+            graceEndBlock = currentBlock + this._oracleGracePeriod.value.toU64();
+            this._retiredOracleKey.value = oldKeyHash;
+            this._retiredOracleSuccessor.value = newKeyHash;
+            this._retiredOracleUntil.value = u256.fromU64(graceEndBlock);
+        }
+
+        this.emitEvent(new OracleRotationAppliedEvent(oldKeyHash, newKeyHash, currentBlock, graceEndBlock));
+
+        const writer: BytesWriter = new BytesWriter(8);
+        writer.writeU64(graceEndBlock);
+        return writer;
+    }
+
+    /**
+     * Cancels the pending oracle rotation. Oracle manager only.
+     *
+     * @returns success (bool)
+     */
+    @method()
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('OracleRotationCancelled')
+    public cancelOracleRotation(_calldata: Calldata): BytesWriter {
+        this._roles.onlyRole(ROLE_ORACLE_MANAGER, Blockchain.tx.sender);
+
+        if (u256.eq(this._pendingOracleBlock.value, u256.Zero)) {
+            throw new Revert('OrdinalsVault: no pending oracle rotation');
+        }
+
+        const oldKeyHash: u256 = this._pendingOracleOld.value;
+        const newKeyHash: u256 = this._pendingOracleNew.value;
+        this.clearPendingOracleRotation();
+
+        this.emitEvent(new OracleRotationCancelledEvent(oldKeyHash, newKeyHash, Blockchain.block.number));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Sets the oracle rotation timelock and grace period. Oracle manager only.
+     *
+     * The delay can only be increased, so a compromised oracle manager key cannot
+     * shorten the window users have to react to a pending rotation.
+     *
+     * @param calldata - rotationDelay (u64, blocks), gracePeriod (u64, blocks)
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'rotationDelay', type: ABIDataTypes.UINT64 },
+        { name: 'gracePeriod', type: ABIDataTypes.UINT64 },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public setOracleRotationParams(calldata: Calldata): BytesWriter {
+        this._roles.onlyRole(ROLE_ORACLE_MANAGER, Blockchain.tx.sender);
+        const rotationDelay: u64 = calldata.readU64();
+        const gracePeriod: u64 = calldata.readU64();
+
+        if (rotationDelay < this.oracleRotationDelay()) {
+            throw new Revert('OrdinalsVault: rotation delay cannot be decreased');
+        }
+
+        this._oracleRotationDelay.value = u256.fromU64(rotationDelay);
+        this._oracleGracePeriod.value = u256.fromU64(gracePeriod);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Returns the pending oracle rotation (if any), the current grace window,
+     * and the rotation parameters.
+     *
+     * @returns pendingOldKeyHash (u256), pendingNewKeyHash (u256),
+     *          effectiveBlock (u64, 0 = nothing pending), retiredKeyHash (u256),
+     *          graceEndBlock (u64), rotationDelay (u64), gracePeriod (u64)
+     */
+    @method()
+    @returns(
+        { name: 'pendingOldKeyHash', type: ABIDataTypes.UINT256 },
+        { name: 'pendingNewKeyHash', type: ABIDataTypes.UINT256 },
+        { name: 'effectiveBlock', type: ABIDataTypes.UINT64 },
+        { name: 'retiredKeyHash', type: ABIDataTypes.UINT256 },
+        { name: 'graceEndBlock', type: ABIDataTypes.UINT64 },
+        { name: 'rotationDelay', type: ABIDataTypes.UINT64 },
+        { name: 'gracePeriod', type: ABIDataTypes.UINT64 },
+    )
+    public getOracleRotation(_calldata: Calldata): BytesWriter {
+        const submitBlock: u64 = this._pendingOracleBlock.value.toU64();
+        const effectiveBlock: u64 = submitBlock == 0 ? 0 : submitBlock + this.oracleRotationDelay();
+
+        const writer: BytesWriter = new BytesWriter(32 * 3 + 8 * 4);
+        writer.writeU256(this._pendingOracleOld.value);
+        writer.writeU256(this._pendingOracleNew.value);
+        writer.writeU64(effectiveBlock);
+        writer.writeU256(this._retiredOracleKey.value);
+        writer.writeU64(this._retiredOracleUntil.value.toU64());
+        writer.writeU64(this.oracleRotationDelay());
+        writer.writeU64(this._oracleGracePeriod.value.toU64());
+        return writer;
+    }
+
+    /**
+     * Removes an oracle key from the set. Oracle manager only.
+     *
+     * Removing a registered key goes through the rotation timelock: it is
+     * proposed here (OracleRotationProposed with newKeyHash = 0) and applied with
+     * applyOracleRotation(0) after `rotationDelay` blocks, so a compromised oracle
+     * manager key cannot strip the set down to a single oracle at once. Reverts
+     * if the remaining set would be smaller than the threshold.
+     *
+     * Passing the outgoing key of the last rotation ends its grace period
+     * immediately, since that only shortens a window that is already closing.
+     *
+     * @param calldata - keyHash (u256)
+     * @returns effectiveBlock (u64, block the removal can be applied from)
+     */
+    @method({ name: 'keyHash', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'effectiveBlock', type: ABIDataTypes.UINT64 })
+    @emit('OracleChanged', 'OracleRotationProposed')
+    public removeOracle(calldata: Calldata): BytesWriter {
+        this._roles.onlyRole(ROLE_ORACLE_MANAGER, Blockchain.tx.sender);
+        const keyHash: u256 = calldata.readU256();
+
+        const currentBlock: u64 = Blockchain.block.number;
+        let effectiveBlock: u64 = currentBlock;
+        if (!u256.eq(keyHash, u256.Zero) && u256.eq(keyHash, this._retiredOracleKey.value)) {
+            this._retiredOracleKey.value = u256.Zero;
+            this._retiredOracleSuccessor.value = u256.Zero;
+            this._retiredOracleUntil.value = u256.Zero;
+            this.emitEvent(new OracleChangedEvent(keyHash, u256.Zero));
+        } else {
+            if (!u256.eq(this._pendingOracleBlock.value, u256.Zero)) {
+                throw new Revert('OrdinalsVault: oracle rotation already pending');
+            }
+            if (u256.eq(this._oracleIndex.get(keyHash), u256.Zero)) {
+                throw new Revert('OrdinalsVault: oracle not registered');
+            }
+
+            const remaining: u256 = SafeMath.sub(this._oracleCount.value, u256.One);
+            if (u256.lt(remaining, this._oracleThreshold.value)) {
+                throw new Revert('OrdinalsVault: removal would leave fewer oracles than threshold');
+            }
+
+            effectiveBlock = currentBlock + this.oracleRotationDelay();
+            this._pendingOracleOld.value = keyHash;
+            this._pendingOracleNew.value = u256.Zero;
+            this._pendingOracleBlock.value = u256.fromU64(currentBlock);
+
+            this.emitEvent(new OracleRotationProposedEvent(keyHash, u256.Zero, currentBlock, effectiveBlock));
+        }
+
+        const writer: BytesWriter = new BytesWriter(8);
+        writer.writeU64(effectiveBlock);
+        return writer;
+    }
+
+    /**
+     * Sets how many distinct oracle signatures an attestation needs. Oracle manager only.
+     *
+     * Raising the threshold takes effect immediately (and drops any pending
+     * decrease). Lowering it only proposes the decrease: it goes through the
+     * rotation timelock (applyOracleThreshold after `rotationDelay` blocks), so
+     * a compromised oracle manager key cannot turn M-of-N into 1-of-1 at once.
+     *
+     * @param calldata - threshold (u32, 1 ≤ threshold ≤ oracle count)
+     * @returns effectiveBlock (u64, block the threshold applies from)
+     */
+    @method({ name: 'threshold', type: ABIDataTypes.UINT32 })
+    @returns({ name: 'effectiveBlock', type: ABIDataTypes.UINT64 })
+    @emit('OracleThresholdChanged', 'OracleThresholdProposed')
+    public setOracleThreshold(calldata: Calldata): BytesWriter {
+        this._roles.onlyRole(ROLE_ORACLE_MANAGER, Blockchain.tx.sender);
+        const threshold: u32 = calldata.readU32();
+        this.checkOracleThreshold(threshold);
+
+        const currentBlock: u64 = Blockchain.block.number;
+        let effectiveBlock: u64 = currentBlock;
+        if (threshold >= this._oracleThreshold.value.toU32()) {
+            this.clearPendingOracleThreshold();
+            this.changeOracleThreshold(threshold);
+        } else {
+            effectiveBlock = currentBlock + this.oracleRotationDelay();
+            this._pendingOracleThreshold.value = u256.fromU32(threshold);
+            this._pendingOracleThresholdBlock.value = u256.fromU64(currentBlock);
+            this.emitEvent(new OracleThresholdProposedEvent(threshold, currentBlock, effectiveBlock));
+        }
+
+        const writer: BytesWriter = new BytesWriter(8);
+        writer.writeU64(effectiveBlock);
+        return writer;
+    }
+
+    /**
+     * Applies a pending threshold decrease once the rotation timelock has
+     * elapsed. The threshold is checked against the oracle count again, since
+     * the set may have shrunk meanwhile. Oracle manager only.
+     *
+     * @param calldata - threshold (u32, must match the pending decrease)
+     * @returns success (bool)
+     */
+    @method({ name: 'threshold', type: ABIDataTypes.UINT32 })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('OracleThresholdChanged')
+    public applyOracleThreshold(calldata: Calldata): BytesWriter {
+        this._roles.onlyRole(ROLE_ORACLE_MANAGER, Blockchain.tx.sender);
+        const threshold: u32 = calldata.readU32();
+
+        const submitBlock: u256 = this._pendingOracleThresholdBlock.value;
+        if (u256.eq(submitBlock, u256.Zero)) {
+            throw new Revert('OrdinalsVault: no pending threshold change');
+        }
+        if (Blockchain.block.number < submitBlock.toU64() + this.oracleRotationDelay()) {
+            throw new Revert('OrdinalsVault: threshold delay not elapsed');
+        }
+        if (threshold != this._pendingOracleThreshold.value.toU32()) {
+            throw new Revert('OrdinalsVault: threshold does not match pending change');
+        }
+        this.checkOracleThreshold(threshold);
+
+        this.clearPendingOracleThreshold();
+        this.changeOracleThreshold(threshold);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Cancels the pending threshold decrease. Oracle manager only.
+     *
+     * @returns success (bool)
+     */
+    @method()
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('OracleThresholdCancelled')
+    public cancelOracleThreshold(_calldata: Calldata): BytesWriter {
+        this._roles.onlyRole(ROLE_ORACLE_MANAGER, Blockchain.tx.sender);
+
+        if (u256.eq(this._pendingOracleThresholdBlock.value, u256.Zero)) {
+            throw new Revert('OrdinalsVault: no pending threshold change');
+        }
+
+        const threshold: u32 = this._pendingOracleThreshold.value.toU32();
+        this.clearPendingOracleThreshold();
+
+        this.emitEvent(new OracleThresholdCancelledEvent(threshold));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Returns the pending threshold decrease, if any.
+     *
+     * @returns threshold (u32), effectiveBlock (u64, 0 = nothing pending)
+     */
+    @method()
+    @returns(
+        { name: 'threshold', type: ABIDataTypes.UINT32 },
+        { name: 'effectiveBlock', type: ABIDataTypes.UINT64 },
+    )
+    public getPendingOracleThreshold(_calldata: Calldata): BytesWriter {
+        const submitBlock: u64 = this._pendingOracleThresholdBlock.value.toU64();
+
+        const writer: BytesWriter = new BytesWriter(4 + 8);
+        writer.writeU32(this._pendingOracleThreshold.value.toU32());
+        writer.writeU64(submitBlock == 0 ? 0 : submitBlock + this.oracleRotationDelay());
+        return writer;
+    }
+
+    /**
+     * Returns the oracle threshold and the current set of oracle key hashes.
+     *
+     * @returns threshold (u32), keyHashes (u256[])
+     */
+    @method()
+    @returns(
+        { name: 'threshold', type: ABIDataTypes.UINT32 },
+        { name: 'keyHashes', type: ABIDataTypes.ARRAY_OF_UINT256 },
+    )
+    public getOracles(_calldata: Calldata): BytesWriter {
+        const count: u32 = this._oracleCount.value.toU32();
+        const keyHashes: u256[] = new Array<u256>(count);
+        for (let i: u32 = 0; i < count; i++) {
+            keyHashes[i] = this._oracleByIndex.get(u256.fromU32(i));
+        }
+
+        const writer: BytesWriter = new BytesWriter(4 + 2 + 32 * count);
+        writer.writeU32(this._oracleThreshold.value.toU32());
+        writer.writeU256Array(keyHashes);
+        return writer;
+    }
+
+    /**
+     * Returns whether a key hash belongs to a registered oracle.
+     *
+     * @param calldata - keyHash (u256)
+     * @returns registered (bool)
+     */
+    @method({ name: 'keyHash', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'registered', type: ABIDataTypes.BOOL })
+    public isOracle(calldata: Calldata): BytesWriter {
+        const keyHash: u256 = calldata.readU256();
+        const registered: bool = !u256.eq(this._oracleIndex.get(keyHash), u256.Zero);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(registered);
+        return writer;
+    }
+
+    /**
+     * Returns the burn/mint status of an inscription.
+     *
+     * @param calldata - inscriptionId (string)
+     * @returns verified (bool), minted (bool), revoked (bool — the latest
+     *          recorded burn was revoked during its challenge period),
+     *          nonce (u256, the latest recorded attestation's nonce; marked
+     *          revoked in getNonceStatus when `revoked`),
+     *          mintableAtBlock (u64, first block mint is allowed; 0 unless verified),
+     *          burner (address, who holds the mint right; zero unless verified),
+     *          mintRightNonce (u256, bumped on every mint right transfer)
+     */
+    @method({ name: 'inscriptionId', type: ABIDataTypes.STRING })
+    @returns(
+        { name: 'verified', type: ABIDataTypes.BOOL },
+        { name: 'minted', type: ABIDataTypes.BOOL },
+        { name: 'revoked', type: ABIDataTypes.BOOL },
+        { name: 'nonce', type: ABIDataTypes.UINT256 },
+        { name: 'mintableAtBlock', type: ABIDataTypes.UINT64 },
+        { name: 'burner', type: ABIDataTypes.ADDRESS },
+        { name: 'mintRightNonce', type: ABIDataTypes.UINT256 },
+    )
+    public getBurnStatus(calldata: Calldata): BytesWriter {
+        const inscriptionId: string = calldata.readStringWithLength();
+        const key: u256 = this.inscriptionKey(inscriptionId);
+
+        const verified: bool = !u256.eq(this._verifiedBurns.get(key), u256.Zero);
+        const minted: bool = !u256.eq(this._mintedInscriptions.get(key), u256.Zero);
+        const revoked: bool = !u256.eq(this._burnRevokedBlock.get(key), u256.Zero);
+
+        let mintableAtBlock: u64 = 0;
+        if (verified) {
+            mintableAtBlock = this._burnBlockHeights.get(key).toU64() + this._challengePeriod.value.toU64() + 1;
+        }
+
+        const writer: BytesWriter = new BytesWriter(3 + 32 + 8 + 32 + 32);
+        writer.writeBoolean(verified);
+        writer.writeBoolean(minted);
+        writer.writeBoolean(revoked);
+        writer.writeU256(this._burnNonce.get(key));
+        writer.writeU64(mintableAtBlock);
+        writer.writeAddress(this._addressFromU256(this._verifiedBurns.get(key)));
+        writer.writeU256(this._mintRightNonce.get(key));
+        return writer;
+    }
+
+    /**
+     * Returns whether an attestation nonce is unused, used, or belonged to a
+     * revoked burn.
+     *
+     * @param calldata - nonce (u256)
+     * @returns status (u8: 0 unused, 1 used, 2 revoked)
+     */
+    @method({ name: 'nonce', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'status', type: ABIDataTypes.UINT8 })
+    public getNonceStatus(calldata: Calldata): BytesWriter {
+        const nonce: u256 = calldata.readU256();
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeU8(<u8>this._usedNonces.get(nonce).toU32());
+        return writer;
+    }
+
+    /**
+     * Returns the Bitcoin-side provenance of a bridged token.
+     * Tokens minted from v1 or batched attestations have no provenance record;
+     * unknown tokens return an empty record.
+     *
+     * @param calldata - tokenId (u256)
+     * @returns hasProvenance (bool), inscriptionId (string), burnTxid (u256),
+     *          btcBlockHeight (u64), inscriptionNumber (i64),
+     *          contentType (string), satNumber (u64)
+     */
+    @method({ name: 'tokenId', type: ABIDataTypes.UINT256 })
+    @returns(
+        { name: 'hasProvenance', type: ABIDataTypes.BOOL },
+        { name: 'inscriptionId', type: ABIDataTypes.STRING },
+        { name: 'burnTxid', type: ABIDataTypes.UINT256 },
+        { name: 'btcBlockHeight', type: ABIDataTypes.UINT64 },
+        { name: 'inscriptionNumber', type: ABIDataTypes.INT64 },
+        { name: 'contentType', type: ABIDataTypes.STRING },
+        { name: 'satNumber', type: ABIDataTypes.UINT64 },
+    )
+    public getProvenance(calldata: Calldata): BytesWriter {
+        const tokenId: u256 = calldata.readU256();
+
+        const inscriptionId: string = this.tokenInscription(tokenId).value;
+        const index: u256 = this._tokenProvenance.get(tokenId);
+        const hasProvenance: bool = !u256.eq(index, u256.Zero);
+        const contentType: string = hasProvenance ? this.provenanceContentType(index).value : '';
+
+        const writer: BytesWriter = new BytesWriter(
+            1 +
+                4 +
+                String.UTF8.byteLength(inscriptionId) +
+                32 +
+                8 +
+                8 +
+                4 +
+                String.UTF8.byteLength(contentType) +
+                8,
+        );
+        writer.writeBoolean(hasProvenance);
+        writer.writeStringWithLength(inscriptionId);
+        writer.writeU256(this._provenanceBurnTxid.get(index));
+        writer.writeU64(this._provenanceBlockHeight.get(index).toU64());
+        writer.writeI64(<i64>this._provenanceInscriptionNumber.get(index).toU64());
+        writer.writeStringWithLength(contentType);
+        writer.writeU64(this._provenanceSatNumber.get(index).toU64());
+        return writer;
+    }
+
+    /**
+     * Returns the primary Bitcoin burn address for this collection — the one
+     * new burns should be sent to. getBurnAddresses lists every accepted address.
+     *
+     * @returns burnAddress (string)
+     */
+    @method()
+    @returns({ name: 'burnAddress', type: ABIDataTypes.STRING })
+    public getBurnAddress(_: Calldata): BytesWriter {
+        const addr: string = this._burnAddress.value;
+        const encoded: ArrayBuffer = String.UTF8.encode(addr);
+        const bytes: Uint8Array = Uint8Array.wrap(encoded);
+        const writer: BytesWriter = new BytesWriter(4 + bytes.length);
+        writer.writeU32(bytes.length);
+        writer.writeBytes(bytes);
+        return writer;
+    }
+
+    /**
+     * Proposes accepting a new burn address, or retiring an accepted one, and
+     * starts its timelock. Admin only.
+     *
+     * Like oracle rotations, the change only takes effect after `rotationDelay`
+     * blocks so users and oracles can react before burns to a new address are
+     * attested or burns to an old one stop being accepted. New addresses must be
+     * canonical P2TR addresses for the current network.
+     *
+     * @param calldata - burnAddress (string), add (bool, false = retire)
+     * @returns effectiveBlock (u64)
+     */
+    @method(
+        { name: 'burnAddress', type: ABIDataTypes.STRING },
+        { name: 'add', type: ABIDataTypes.BOOL },
+    )
+    @returns({ name: 'effectiveBlock', type: ABIDataTypes.UINT64 })
+    @emit('BurnAddressChangeProposed')
+    public proposeBurnAddressChange(calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+        const burnAddress: string = calldata.readStringWithLength();
+        const add: bool = calldata.readBoolean();
+
+        const addressHash: u256 = this.burnAddressHash(burnAddress);
+        if (!u256.eq(this._pendingBurnAddressBlock.get(addressHash), u256.Zero)) {
+            throw new Revert('OrdinalsVault: burn address change already pending');
+        }
+
+        const accepted: bool = !u256.eq(this._burnAddressIndex.get(addressHash), u256.Zero);
+        if (add) {
+            if (accepted) {
+                throw new Revert('OrdinalsVault: burn address already accepted');
+            }
+            this.validateBurnAddress(burnAddress);
+        } else if (!accepted) {
+            throw new Revert('OrdinalsVault: burn address not accepted');
+        }
+
+        const currentBlock: u64 = Blockchain.block.number;
+        const effectiveBlock: u64 = currentBlock + this.oracleRotationDelay();
+
+        this._pendingBurnAddressBlock.set(addressHash, u256.fromU64(currentBlock));
+        this._pendingBurnAddressAction.set(addressHash, u256.fromU32(<u32>(add ? BURN_ADDRESS_ADD : BURN_ADDRESS_RETIRE)));
+
+        this.emitEvent(new BurnAddressChangeProposedEvent(burnAddress, add, currentBlock, effectiveBlock));
+
+        const writer: BytesWriter = new BytesWriter(8);
+        writer.writeU64(effectiveBlock);
+        return writer;
+    }
+
+    /**
+     * Applies a pending burn address change once its timelock has elapsed. Admin only.
+     * Retiring the primary address promotes the first remaining accepted address.
+     *
+     * @param calldata - burnAddress (string, must have a pending change)
+     * @returns success (bool)
+     */
+    @method({ name: 'burnAddress', type: ABIDataTypes.STRING })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('BurnAddressAdded', 'BurnAddressRetired')
+    public applyBurnAddressChange(calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+        const burnAddress: string = calldata.readStringWithLength();
+
+        const addressHash: u256 = this.burnAddressHash(burnAddress);
+        const submitBlock: u256 = this._pendingBurnAddressBlock.get(addressHash);
+        if (u256.eq(submitBlock, u256.Zero)) {
+            throw new Revert('OrdinalsVault: no pending burn address change');
+        }
+        if (Blockchain.block.number < submitBlock.toU64() + this.oracleRotationDelay()) {
+            throw new Revert('OrdinalsVault: burn address timelock not elapsed');
+        }
+
+        const action: u8 = <u8>this._pendingBurnAddressAction.get(addressHash).toU32();
+        this._pendingBurnAddressBlock.delete(addressHash);
+        this._pendingBurnAddressAction.delete(addressHash);
+
+        if (action == BURN_ADDRESS_ADD) {
+            this.addBurnAddress(burnAddress);
+        } else {
+            this.retireBurnAddress(burnAddress);
+        }
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Cancels a pending burn address change. Admin only.
+     *
+     * @param calldata - burnAddress (string)
+     * @returns success (bool)
+     */
+    @method({ name: 'burnAddress', type: ABIDataTypes.STRING })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('BurnAddressChangeCancelled')
+    public cancelBurnAddressChange(calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+        const burnAddress: string = calldata.readStringWithLength();
+
+        const addressHash: u256 = this.burnAddressHash(burnAddress);
+        if (u256.eq(this._pendingBurnAddressBlock.get(addressHash), u256.Zero)) {
+            throw new Revert('OrdinalsVault: no pending burn address change');
+        }
+
+        this._pendingBurnAddressBlock.delete(addressHash);
+        this._pendingBurnAddressAction.delete(addressHash);
+
+        this.emitEvent(new BurnAddressChangeCancelledEvent(burnAddress, Blockchain.block.number));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Returns every accepted burn address. Attestations commit to one of them
+     * via burnAddressHash = sha256(UTF-8 address).
+     *
+     * @returns burnAddresses (string[])
+     */
+    @method()
+    @returns({ name: 'burnAddresses', type: ABIDataTypes.ARRAY_OF_STRING })
+    public getBurnAddresses(_calldata: Calldata): BytesWriter {
+        const count: u32 = this._burnAddressCount.value.toU32();
+        const addresses: string[] = [];
+        let size: i32 = 2;
+        for (let i: u32 = 0; i < count; i++) {
+            const burnAddress: string = this.burnAddressAt(i).value;
+            addresses.push(burnAddress);
+            size += 4 + String.UTF8.byteLength(burnAddress);
+        }
+
+        const writer: BytesWriter = new BytesWriter(size);
+        writer.writeU16(<u16>count);
+        for (let i: i32 = 0; i < addresses.length; i++) {
+            writer.writeStringWithLength(addresses[i]);
+        }
+        return writer;
+    }
+
+    /**
+     * Returns the collection ID hash for this vault.
+     * u256.Zero means universal mode (any inscription accepted).
+     *
+     * @returns collectionIdHash (u256)
+     */
+    @method()
+    @returns({ name: 'collectionIdHash', type: ABIDataTypes.UINT256 })
+    public getCollectionId(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(this._collectionIdHash.value);
+        return writer;
+    }
+
+    /**
+     * Returns the parent inscriptions defining this collection, fixed at
+     * deployment. Empty unless this is a parent collection, in which case
+     * attestations commit to the child's parent via
+     * collectionIdHash = sha256(UTF-8 parent inscription ID).
+     *
+     * @returns parentInscriptionIds (string[])
+     */
+    @method()
+    @returns({ name: 'parentInscriptionIds', type: ABIDataTypes.ARRAY_OF_STRING })
+    public getParentInscriptions(_calldata: Calldata): BytesWriter {
+        const count: u32 = this._parentCount.value.toU32();
+        const parents: string[] = [];
+        let size: i32 = 2;
+        for (let i: u32 = 0; i < count; i++) {
+            const parent: string = this.parentInscriptionAt(i).value;
+            parents.push(parent);
+            size += 4 + String.UTF8.byteLength(parent);
+        }
+
+        const writer: BytesWriter = new BytesWriter(size);
+        writer.writeU16(<u16>count);
+        for (let i: i32 = 0; i < parents.length; i++) {
+            writer.writeStringWithLength(parents[i]);
+        }
+        return writer;
+    }
+
+    /**
+     * Returns the parent inscription a token's inscription was attested as a
+     * child of. Empty for tokens outside a parent collection.
+     *
+     * @param calldata - tokenId (u256)
+     * @returns parentInscriptionId (string)
+     */
+    @method({ name: 'tokenId', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'parentInscriptionId', type: ABIDataTypes.STRING })
+    public getTokenParent(calldata: Calldata): BytesWriter {
+        const tokenId: u256 = calldata.readU256();
+
+        const indexPlusOne: u256 = this._tokenParent.get(tokenId);
+        const parent: string = u256.eq(indexPlusOne, u256.Zero)
+            ? ''
+            : this.parentInscriptionAt(indexPlusOne.toU32() - 1).value;
+
+        const writer: BytesWriter = new BytesWriter(4 + String.UTF8.byteLength(parent));
+        writer.writeStringWithLength(parent);
+        return writer;
+    }
+
+    /**
+     * Appoints the pause guardian. Admin only.
+     * Pass the zero address to remove the guardian.
+     *
+     * @param calldata - guardian (address)
+     * @returns success (bool)
+     */
+    @method({ name: 'guardian', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('GuardianChanged')
+    public setGuardian(calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+        const guardian: Address = calldata.readAddress();
+
+        const previous: Address = this._addressFromU256(this._guardian.value);
+        this._guardian.value = guardian.isZero() ? u256.Zero : this._u256FromAddress(guardian);
+
+        this.emitEvent(new GuardianChangedEvent(previous, guardian));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Pauses parts of the bridge. Guardian only.
+     *
+     * flags is a bitmask: 1 = attestation recording (and redemption confirmations),
+     * 2 = minting, 4 = OP721 transfers (and redemption requests). Pausing restarts
+     * the UNPAUSE_DELAY countdown for everything currently paused.
+     *
+     * @param calldata - flags (u8)
+     * @returns unpauseBlock (u64) — first block at which the admin may unpause
+     */
+    @method({ name: 'flags', type: ABIDataTypes.UINT8 })
+    @returns({ name: 'unpauseBlock', type: ABIDataTypes.UINT64 })
+    @emit('Paused')
+    public pause(calldata: Calldata): BytesWriter {
+        const flags: u8 = calldata.readU8();
+
+        const guardian: u256 = this._guardian.value;
+        if (u256.eq(guardian, u256.Zero) || !u256.eq(guardian, this._u256FromAddress(Blockchain.tx.sender))) {
+            throw new Revert('OrdinalsVault: caller is not the guardian');
+        }
+        if (flags == 0 || (flags & ~PAUSE_ALL) != 0) {
+            throw new Revert('OrdinalsVault: invalid pause flags');
+        }
+
+        const pausedFlags: u8 = this.pausedFlags() | flags;
+        const currentBlock: u64 = Blockchain.block.number;
+        this._pausedFlags.value = u256.fromU32(<u32>pausedFlags);
+        this._pausedAtBlock.value = u256.fromU64(currentBlock);
+
+        const unpauseBlock: u64 = currentBlock + UNPAUSE_DELAY;
+        this.emitEvent(new PausedEvent(flags, pausedFlags, unpauseBlock));
+
+        const writer: BytesWriter = new BytesWriter(8);
+        writer.writeU64(unpauseBlock);
+        return writer;
+    }
+
+    /**
+     * Lifts a pause. Admin only, and only UNPAUSE_DELAY blocks after the
+     * latest pause, giving time to rotate a leaked oracle key first.
+     *
+     * @param calldata - flags (u8, PAUSE_* bits to lift)
+     * @returns success (bool)
+     */
+    @method({ name: 'flags', type: ABIDataTypes.UINT8 })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('Unpaused')
+    public unpause(calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+        const flags: u8 = calldata.readU8();
+
+        if (flags == 0 || (flags & ~PAUSE_ALL) != 0) {
+            throw new Revert('OrdinalsVault: invalid pause flags');
+        }
+        if (Blockchain.block.number < this._pausedAtBlock.value.toU64() + UNPAUSE_DELAY) {
+            throw new Revert('OrdinalsVault: unpause delay not elapsed');
+        }
+
+        const pausedFlags: u8 = this.pausedFlags() & ~flags;
+        this._pausedFlags.value = u256.fromU32(<u32>pausedFlags);
+
+        this.emitEvent(new UnpausedEvent(flags, pausedFlags));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Returns the pause state, e.g. for a maintenance banner.
+     *
+     * @returns guardian (address), attestPaused (bool), mintPaused (bool),
+     *          transfersPaused (bool), pausedAtBlock (u64), unpauseBlock (u64)
+     */
+    @method()
+    @returns(
+        { name: 'guardian', type: ABIDataTypes.ADDRESS },
+        { name: 'attestPaused', type: ABIDataTypes.BOOL },
+        { name: 'mintPaused', type: ABIDataTypes.BOOL },
+        { name: 'transfersPaused', type: ABIDataTypes.BOOL },
+        { name: 'pausedAtBlock', type: ABIDataTypes.UINT64 },
+        { name: 'unpauseBlock', type: ABIDataTypes.UINT64 },
+    )
+    public getPauseState(_calldata: Calldata): BytesWriter {
+        const flags: u8 = this.pausedFlags();
+        const pausedAtBlock: u64 = this._pausedAtBlock.value.toU64();
+
+        const writer: BytesWriter = new BytesWriter(32 + 3 + 8 + 8);
+        writer.writeAddress(this._addressFromU256(this._guardian.value));
+        writer.writeBoolean((flags & PAUSE_ATTEST) != 0);
+        writer.writeBoolean((flags & PAUSE_MINT) != 0);
+        writer.writeBoolean((flags & PAUSE_TRANSFER) != 0);
+        writer.writeU64(pausedAtBlock);
+        writer.writeU64(flags == 0 ? 0 : pausedAtBlock + UNPAUSE_DELAY);
+        return writer;
+    }
+
+    // ─── Collection allowlist ─────────────────────────────────────────────────
+
+    /**
+     * Commits the Merkle root of the collection's inscription IDs. Can be set
+     * once, in collection mode only, and is frozen afterwards. From then on a
+     * burn is only recorded for inscriptions proven to be in the allowlist
+     * (see proveAllowlistMembership), whatever the oracles sign. Admin only.
+     *
+     * Leaf: sha256(sha256(inscriptionKey (32) | index (4, u32 BE))), where
+     * inscriptionKey is the binary outpoint key of the canonical inscription ID
+     * and index its position in the collection (the token ID in collection
+     * index mode); pairs are hashed in ascending order as for attestation roots.
+     *
+     * @param calldata - root (u256)
+     * @returns success (bool)
+     */
+    @method({ name: 'root', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('AllowlistRootSet')
+    public setAllowlistRoot(calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+        const root: u256 = calldata.readU256();
+
+        if (!this.isCollectionMode()) {
+            throw new Revert('OrdinalsVault: allowlist requires collection mode');
+        }
+        if (!u256.eq(this._allowlistRoot.value, u256.Zero)) {
+            throw new Revert('OrdinalsVault: allowlist root frozen');
+        }
+        if (u256.eq(root, u256.Zero)) {
+            throw new Revert('OrdinalsVault: invalid allowlist root');
+        }
+
+        this._allowlistRoot.value = root;
+
+        this.emitEvent(new AllowlistRootSetEvent(root));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Proves an inscription is in the collection allowlist, so its burn can
+     * be recorded by any recordBurn* method. Anyone can call this, e.g. a
+     * relayer right before recording the burn.
+     *
+     * @param calldata - inscriptionId (string), index (u32, position in the collection),
+     *                   proof (u256[], sibling hashes leaf → root)
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'inscriptionId', type: ABIDataTypes.STRING },
+        { name: 'index', type: ABIDataTypes.UINT32 },
+        { name: 'proof', type: ABIDataTypes.ARRAY_OF_UINT256 },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public proveAllowlistMembership(calldata: Calldata): BytesWriter {
+        const inscriptionId: string = calldata.readStringWithLength();
+        const index: u32 = calldata.readU32();
+        const proof: u256[] = calldata.readU256Array();
+
+        const root: u256 = this._allowlistRoot.value;
+        if (u256.eq(root, u256.Zero)) {
+            throw new Revert('OrdinalsVault: no allowlist');
+        }
+        if (proof.length > MAX_MERKLE_PROOF_LENGTH) {
+            throw new Revert('OrdinalsVault: proof too long');
+        }
+
+        const key: u256 = this.inscriptionKey(inscriptionId);
+        if (!u256.eq(this.computeMerkleRoot(this.buildAllowlistLeaf(key, index), proof), root)) {
+            throw new Revert('OrdinalsVault: invalid allowlist proof');
+        }
+
+        this._allowlisted.set(key, SafeMath.add(u256.fromU32(index), u256.One));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Returns the allowlist root and whether an inscription may be recorded
+     * under it.
+     *
+     * @param calldata - inscriptionId (string)
+     * @returns root (u256, zero if no allowlist), allowed (bool — true when
+     *          there is no allowlist or membership has been proven)
+     */
+    @method({ name: 'inscriptionId', type: ABIDataTypes.STRING })
+    @returns(
+        { name: 'root', type: ABIDataTypes.UINT256 },
+        { name: 'allowed', type: ABIDataTypes.BOOL },
+    )
+    public getAllowlistStatus(calldata: Calldata): BytesWriter {
+        const inscriptionId: string = calldata.readStringWithLength();
+        const key: u256 = this.inscriptionKey(inscriptionId);
+
+        const writer: BytesWriter = new BytesWriter(32 + 1);
+        writer.writeU256(this._allowlistRoot.value);
+        writer.writeBoolean(this.isAllowlisted(key));
+        return writer;
+    }
+
+    // ─── Challenge window ─────────────────────────────────────────────────────
+
+    /**
+     * Sets how many blocks a recorded burn stays revocable before it can be
+     * minted. 0 keeps the plain one-block wait. Admin only.
+     *
+     * @param calldata - challengePeriod (u64, blocks, at most MAX_CHALLENGE_PERIOD)
+     * @returns success (bool)
+     */
+    @method({ name: 'challengePeriod', type: ABIDataTypes.UINT64 })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('ChallengePeriodUpdated')
+    public setChallengePeriod(calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+        const challengePeriod: u64 = calldata.readU64();
+
+        if (challengePeriod > MAX_CHALLENGE_PERIOD) {
+            throw new Revert('OrdinalsVault: challenge period too long');
+        }
+
+        this._challengePeriod.value = u256.fromU64(challengePeriod);
+
+        this.emitEvent(new ChallengePeriodUpdatedEvent(challengePeriod));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Returns the challenge period.
+     *
+     * @returns challengePeriod (u64, blocks)
+     */
+    @method()
+    @returns({ name: 'challengePeriod', type: ABIDataTypes.UINT64 })
+    public getChallengePeriod(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(8);
+        writer.writeU64(this._challengePeriod.value.toU64());
+        return writer;
+    }
+
+    /**
+     * Revokes a recorded burn during its challenge period. Guardian only.
+     *
+     * @param calldata - inscriptionId (string)
+     * @returns success (bool)
+     */
+    @method({ name: 'inscriptionId', type: ABIDataTypes.STRING })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('BurnRevoked')
+    public revokeBurn(calldata: Calldata): BytesWriter {
+        const inscriptionId: string = calldata.readStringWithLength();
+
+        const guardian: u256 = this._guardian.value;
+        if (u256.eq(guardian, u256.Zero) || !u256.eq(guardian, this._u256FromAddress(Blockchain.tx.sender))) {
+            throw new Revert('OrdinalsVault: caller is not the guardian');
+        }
+
+        const key: u256 = this.inscriptionKey(inscriptionId);
+        this.revokeRecordedBurn(key, inscriptionId, true);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Revokes a recorded burn during its challenge period with an
+     * oracle-signed revocation, e.g. after the Bitcoin block holding the burn
+     * was reorged out. Anyone can submit it.
+     *
+     * Revocation hash:
+     *   sha256(sha256("OrdinalsVault:BurnRevocation") || contractAddress
+     *          || writeU32(inscriptionId.len) || inscriptionId || nonce_u256
+     *          || deadline_u64_BE)
+     *
+     * @param calldata - inscriptionId (string), nonce (u256, the recorded
+     *                   attestation's nonce), deadline (u64, block height),
+     *                   oraclePublicKeys (bytes[]), oracleSigs (bytes[])
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'inscriptionId', type: ABIDataTypes.STRING },
+        { name: 'nonce', type: ABIDataTypes.UINT256 },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+        { name: 'oraclePublicKeys', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+        { name: 'oracleSigs', type: ABIDataTypes.ARRAY_OF_BUFFERS },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('BurnRevoked')
+    public revokeBurnWithAttestation(calldata: Calldata): BytesWriter {
+        const inscriptionId: string = calldata.readStringWithLength();
+        const nonce: u256 = calldata.readU256();
+        const deadline: u64 = calldata.readU64();
+        const oraclePublicKeys: Uint8Array[] = calldata.readArrayOfBuffer();
+        const oracleSigs: Uint8Array[] = calldata.readArrayOfBuffer();
+
+        if (Blockchain.block.number > deadline) {
+            throw new Revert('OrdinalsVault: revocation expired');
+        }
+
+        const key: u256 = this.inscriptionKey(inscriptionId);
+        if (!u256.eq(this._burnNonce.get(key), nonce)) {
+            throw new Revert('OrdinalsVault: revocation nonce mismatch');
+        }
+
+        const hash: Uint8Array = this.buildRevocationHash(inscriptionId, nonce, deadline);
+        this.verifyOracleSignatures(hash, oraclePublicKeys, oracleSigs);
+
+        this.revokeRecordedBurn(key, inscriptionId, false);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    // ─── Mint budget ──────────────────────────────────────────────────────────
+
+    /**
+     * Caps how many burns can be recorded per window of `period` blocks, so a
+     * stolen oracle key cannot mint the whole supply at once. Burns over the
+     * budget are held for review. `maxBurns = 0` lifts the cap. Admin only.
+     *
+     * @param calldata - maxBurns (u32), period (u64, blocks)
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'maxBurns', type: ABIDataTypes.UINT32 },
+        { name: 'period', type: ABIDataTypes.UINT64 },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('MintBudgetUpdated')
+    public setMintBudget(calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+        const maxBurns: u32 = calldata.readU32();
+        const period: u64 = calldata.readU64();
+
+        if (maxBurns != 0 && period == 0) {
+            throw new Revert('OrdinalsVault: invalid budget period');
+        }
+
+        this._mintBudgetMax.value = u256.fromU32(maxBurns);
+        this._mintBudgetPeriod.value = u256.fromU64(period);
+
+        this.emitEvent(new MintBudgetUpdatedEvent(maxBurns, period));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Returns the mint budget and how much of the current window is left.
+     *
+     * @returns maxBurns (u32, 0 = unlimited), period (u64), used (u32),
+     *          remaining (u32), windowEndBlock (u64, 0 if no window is open),
+     *          pendingReview (u32, burns waiting for release or rejection)
+     */
+    @method()
+    @returns(
+        { name: 'maxBurns', type: ABIDataTypes.UINT32 },
+        { name: 'period', type: ABIDataTypes.UINT64 },
+        { name: 'used', type: ABIDataTypes.UINT32 },
+        { name: 'remaining', type: ABIDataTypes.UINT32 },
+        { name: 'windowEndBlock', type: ABIDataTypes.UINT64 },
+        { name: 'pendingReview', type: ABIDataTypes.UINT32 },
+    )
+    public getMintBudget(_calldata: Calldata): BytesWriter {
+        const maxBurns: u32 = this._mintBudgetMax.value.toU32();
+        const period: u64 = this._mintBudgetPeriod.value.toU64();
+
+        let used: u32 = 0;
+        let windowEndBlock: u64 = 0;
+        if (maxBurns != 0) {
+            const windowEnd: u64 = this._mintBudgetWindowStart.value.toU64() + period;
+            if (Blockchain.block.number < windowEnd) {
+                used = this._mintBudgetUsed.value.toU32();
+                windowEndBlock = windowEnd;
+            }
+        }
+
+        const writer: BytesWriter = new BytesWriter(4 + 8 + 4 + 4 + 8 + 4);
+        writer.writeU32(maxBurns);
+        writer.writeU64(period);
+        writer.writeU32(used);
+        writer.writeU32(maxBurns > used ? maxBurns - used : 0);
+        writer.writeU64(windowEndBlock);
+        writer.writeU32(this._pendingBurnCount.value.toU32());
+        return writer;
+    }
+
+    /**
+     * Returns a burn held for review, if any.
+     *
+     * @param calldata - inscriptionId (string)
+     * @returns pending (bool), burner (address), queuedBlock (u64)
+     */
+    @method({ name: 'inscriptionId', type: ABIDataTypes.STRING })
+    @returns(
+        { name: 'pending', type: ABIDataTypes.BOOL },
+        { name: 'burner', type: ABIDataTypes.ADDRESS },
+        { name: 'queuedBlock', type: ABIDataTypes.UINT64 },
+    )
+    public getPendingBurn(calldata: Calldata): BytesWriter {
+        const inscriptionId: string = calldata.readStringWithLength();
+        const key: u256 = this.inscriptionKey(inscriptionId);
+
+        const burner: u256 = this._pendingBurner.get(key);
+
+        const writer: BytesWriter = new BytesWriter(1 + 32 + 8);
+        writer.writeBoolean(!u256.eq(burner, u256.Zero));
+        writer.writeAddress(this._addressFromU256(burner));
+        writer.writeU64(this._pendingBurnBlock.get(key).toU64());
+        return writer;
+    }
+
+    /**
+     * Records a burn that was held for review, as if its attestation had fit
+     * the budget, and emits BurnRecorded for it like any other recorded burn.
+     * The burner can mint from the next block. Admin only.
+     *
+     * @param calldata - inscriptionId (string)
+     * @returns success (bool)
+     */
+    @method({ name: 'inscriptionId', type: ABIDataTypes.STRING })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('PendingBurnReleased', 'BurnRecorded')
+    public releasePendingBurn(calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+        const inscriptionId: string = calldata.readStringWithLength();
+        const key: u256 = this.inscriptionKey(inscriptionId);
+
+        // Read before takePendingBurn clears it
+        const collectionIdHash: u256 = this._pendingBurnCollection.get(key);
+        const burner: u256 = this.takePendingBurn(key);
+        this._verifiedBurns.set(key, burner);
+        this._burnBlockHeights.set(key, u256.fromU64(Blockchain.block.number));
+        this.countRecordedBurn(burner);
+
+        const burnerAddress: Address = this._addressFromU256(burner);
+        this.emitEvent(new PendingBurnReleasedEvent(inscriptionId, burnerAddress));
+        this.emitEvent(
+            new BurnRecordedEvent(
+                inscriptionId,
+                burnerAddress,
+                this._burnNonce.get(key),
+                collectionIdHash,
+                Blockchain.block.number,
+            ),
+        );
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Drops a burn that was held for review. Its nonce stays used, so the
+     * same attestation cannot be replayed; a genuine burn can be re-attested
+     * with a fresh nonce. Admin only.
+     *
+     * @param calldata - inscriptionId (string)
+     * @returns success (bool)
+     */
+    @method({ name: 'inscriptionId', type: ABIDataTypes.STRING })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('PendingBurnRejected')
+    public rejectPendingBurn(calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+        const inscriptionId: string = calldata.readStringWithLength();
+        const key: u256 = this.inscriptionKey(inscriptionId);
+
+        const burner: u256 = this.takePendingBurn(key);
+        this._burnProvenance.delete(key);
+        this._burnParent.delete(key);
+
+        this.emitEvent(new PendingBurnRejectedEvent(inscriptionId, this._addressFromU256(burner)));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    // ─── Bridge stats ─────────────────────────────────────────────────────────
+
+    /**
+     * Returns the vault's bridge counters, for dashboards and reconciliation
+     * against the oracle's ledger: every recorded burn ends up minted or
+     * revoked, or is still waiting to be minted.
+     *
+     * Counting starts with the code version that introduced the counters, so
+     * on older vaults burns recorded before that update are not included and
+     * pendingMints is clamped at zero.
+     *
+     * @returns burnsRecorded (u256), tokensMinted (u256), burnsRevoked (u256),
+     *          pendingMints (u256, recorded but neither minted nor revoked),
+     *          heldForReview (u256, burns over the mint budget)
+     */
+    @method()
+    @returns(
+        { name: 'burnsRecorded', type: ABIDataTypes.UINT256 },
+        { name: 'tokensMinted', type: ABIDataTypes.UINT256 },
+        { name: 'burnsRevoked', type: ABIDataTypes.UINT256 },
+        { name: 'pendingMints', type: ABIDataTypes.UINT256 },
+        { name: 'heldForReview', type: ABIDataTypes.UINT256 },
+    )
+    public getBridgeStats(_calldata: Calldata): BytesWriter {
+        const recorded: u256 = this._burnsRecorded.value;
+        const settled: u256 = SafeMath.add(this._tokensMinted.value, this._burnsRevoked.value);
+        const pendingMints: u256 = u256.gt(recorded, settled) ? SafeMath.sub(recorded, settled) : u256.Zero;
+
+        const writer: BytesWriter = new BytesWriter(32 * 5);
+        writer.writeU256(recorded);
+        writer.writeU256(this._tokensMinted.value);
+        writer.writeU256(this._burnsRevoked.value);
+        writer.writeU256(pendingMints);
+        writer.writeU256(this._pendingBurnCount.value);
+        return writer;
+    }
+
+    /**
+     * Returns how many burns were recorded for a burner and how many tokens
+     * were minted from burns whose mint right they held (see transferMintRight).
+     *
+     * @param calldata - burner (address)
+     * @returns recorded (u256), minted (u256)
+     */
+    @method({ name: 'burner', type: ABIDataTypes.ADDRESS })
+    @returns(
+        { name: 'recorded', type: ABIDataTypes.UINT256 },
+        { name: 'minted', type: ABIDataTypes.UINT256 },
+    )
+    public getBurnerStats(calldata: Calldata): BytesWriter {
+        const burner: u256 = this._u256FromAddress(calldata.readAddress());
+
+        const writer: BytesWriter = new BytesWriter(32 * 2);
+        writer.writeU256(this._burnerRecorded.get(burner));
+        writer.writeU256(this._burnerMinted.get(burner));
+        return writer;
+    }
+
+    // ─── Bridge fee ───────────────────────────────────────────────────────────
+
+    /**
+     * Proposes a new bridge fee and starts its timelock. Admin only.
+     *
+     * Like burn address changes, the fee only takes effect after
+     * `rotationDelay` blocks, so users see a raise coming before they burn.
+     * `amount = 0` proposes removing the fee.
+     *
+     * @param calldata - token (address, OP20), amount (u256), recipient (address)
+     * @returns effectiveBlock (u64)
+     */
+    @method(
+        { name: 'token', type: ABIDataTypes.ADDRESS },
+        { name: 'amount', type: ABIDataTypes.UINT256 },
+        { name: 'recipient', type: ABIDataTypes.ADDRESS },
+    )
+    @returns({ name: 'effectiveBlock', type: ABIDataTypes.UINT64 })
+    @emit('FeeConfigProposed')
+    public proposeFeeConfig(calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+        const token: Address = calldata.readAddress();
+        const amount: u256 = calldata.readU256();
+        const recipient: Address = calldata.readAddress();
+
+        if (!u256.eq(this._pendingFeeBlock.value, u256.Zero)) {
+            throw new Revert('OrdinalsVault: fee change already pending');
+        }
+        if (!u256.eq(amount, u256.Zero) && (token.isZero() || recipient.isZero())) {
+            throw new Revert('OrdinalsVault: fee token and recipient required');
+        }
+
+        const currentBlock: u64 = Blockchain.block.number;
+        const effectiveBlock: u64 = currentBlock + this.oracleRotationDelay();
+
+        this._pendingFeeToken.value = this._u256FromAddress(token);
+        this._pendingFeeAmount.value = amount;
+        this._pendingFeeRecipient.value = this._u256FromAddress(recipient);
+        this._pendingFeeBlock.value = u256.fromU64(currentBlock);
+
+        this.emitEvent(new FeeConfigProposedEvent(token, amount, recipient, currentBlock, effectiveBlock));
+
+        const writer: BytesWriter = new BytesWriter(8);
+        writer.writeU64(effectiveBlock);
+        return writer;
+    }
+
+    /**
+     * Applies the pending bridge fee once its timelock has elapsed. Admin only.
+     *
+     * @returns success (bool)
+     */
+    @method()
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('FeeConfigApplied')
+    public applyFeeConfig(_calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+
+        const submitBlock: u256 = this._pendingFeeBlock.value;
+        if (u256.eq(submitBlock, u256.Zero)) {
+            throw new Revert('OrdinalsVault: no pending fee change');
+        }
+        if (Blockchain.block.number < submitBlock.toU64() + this.oracleRotationDelay()) {
+            throw new Revert('OrdinalsVault: fee timelock not elapsed');
+        }
+
+        const token: u256 = this._pendingFeeToken.value;
+        const amount: u256 = this._pendingFeeAmount.value;
+        const recipient: u256 = this._pendingFeeRecipient.value;
+        this._feeToken.value = token;
+        this._feeAmount.value = amount;
+        this._feeRecipient.value = recipient;
+        this.clearPendingFee();
+
+        this.emitEvent(
+            new FeeConfigAppliedEvent(this._addressFromU256(token), amount, this._addressFromU256(recipient)),
+        );
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Cancels the pending bridge fee change. Admin only.
+     *
+     * @returns success (bool)
+     */
+    @method()
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('FeeConfigCancelled')
+    public cancelFeeConfig(_calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+
+        if (u256.eq(this._pendingFeeBlock.value, u256.Zero)) {
+            throw new Revert('OrdinalsVault: no pending fee change');
+        }
+
+        this.clearPendingFee();
+
+        this.emitEvent(new FeeConfigCancelledEvent(Blockchain.block.number));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Adds or removes an address from the fee exemption list, e.g. a partner
+     * collection's migration wallet. Exempt addresses mint without paying the
+     * bridge fee. Takes effect immediately, as it can only lower costs. Admin only.
+     *
+     * @param calldata - account (address), exempt (bool)
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'account', type: ABIDataTypes.ADDRESS },
+        { name: 'exempt', type: ABIDataTypes.BOOL },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('FeeExemptionChanged')
+    public setFeeExempt(calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+        const account: Address = calldata.readAddress();
+        const exempt: bool = calldata.readBoolean();
+
+        if (account.isZero()) {
+            throw new Revert('OrdinalsVault: invalid account');
+        }
+
+        const accountKey: u256 = this._u256FromAddress(account);
+        if (exempt) {
+            this._feeExempt.set(accountKey, u256.One);
+        } else {
+            this._feeExempt.delete(accountKey);
+        }
+
+        this.emitEvent(new FeeExemptionChangedEvent(account, exempt));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Returns the bridge fee and any pending change, so frontends can show
+     * the cost of a bridge before the user burns.
+     *
+     * @returns token (address), amount (u256, 0 = no fee), recipient (address),
+     *          pendingToken (address), pendingAmount (u256), pendingRecipient (address),
+     *          pendingEffectiveBlock (u64, 0 = nothing pending)
+     */
+    @method()
+    @returns(
+        { name: 'token', type: ABIDataTypes.ADDRESS },
+        { name: 'amount', type: ABIDataTypes.UINT256 },
+        { name: 'recipient', type: ABIDataTypes.ADDRESS },
+        { name: 'pendingToken', type: ABIDataTypes.ADDRESS },
+        { name: 'pendingAmount', type: ABIDataTypes.UINT256 },
+        { name: 'pendingRecipient', type: ABIDataTypes.ADDRESS },
+        { name: 'pendingEffectiveBlock', type: ABIDataTypes.UINT64 },
+    )
+    public getFeeConfig(_calldata: Calldata): BytesWriter {
+        const submitBlock: u256 = this._pendingFeeBlock.value;
+        const pendingEffectiveBlock: u64 = u256.eq(submitBlock, u256.Zero)
+            ? 0
+            : submitBlock.toU64() + this.oracleRotationDelay();
+
+        const writer: BytesWriter = new BytesWriter(32 * 6 + 8);
+        writer.writeAddress(this._addressFromU256(this._feeToken.value));
+        writer.writeU256(this._feeAmount.value);
+        writer.writeAddress(this._addressFromU256(this._feeRecipient.value));
+        writer.writeAddress(this._addressFromU256(this._pendingFeeToken.value));
+        writer.writeU256(this._pendingFeeAmount.value);
+        writer.writeAddress(this._addressFromU256(this._pendingFeeRecipient.value));
+        writer.writeU64(pendingEffectiveBlock);
+        return writer;
+    }
+
+    /**
+     * Returns whether an address mints without paying the bridge fee.
+     *
+     * @param calldata - account (address)
+     * @returns exempt (bool)
+     */
+    @method({ name: 'account', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'exempt', type: ABIDataTypes.BOOL })
+    public isFeeExempt(calldata: Calldata): BytesWriter {
+        const account: Address = calldata.readAddress();
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(!u256.eq(this._feeExempt.get(this._u256FromAddress(account)), u256.Zero));
+        return writer;
+    }
+
+    // ─── Token metadata ───────────────────────────────────────────────────────
+
+    /**
+     * Sets the inscription content renderer token images point at, e.g.
+     * `https://ordinals.com/content/`. Empty removes images from tokenURI.
+     * Metadata manager only.
+     *
+     * @param calldata - contentBaseURI (string)
+     * @returns success (bool)
+     */
+    @method({ name: 'contentBaseURI', type: ABIDataTypes.STRING })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('ContentBaseURIChanged')
+    public setContentBaseURI(calldata: Calldata): BytesWriter {
+        this._roles.onlyRole(ROLE_METADATA_MANAGER, Blockchain.tx.sender);
+        const contentBaseURI: string = calldata.readStringWithLength();
+
+        if (<u32>contentBaseURI.length > MAX_URI_LENGTH) {
+            throw new Revert('OrdinalsVault: URI exceeds maximum length');
+        }
+
+        const previous: string = this._contentBaseURI.value;
+        this._contentBaseURI.value = contentBaseURI;
+        this.emitEvent(new ContentBaseURIChangedEvent(previous, contentBaseURI));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Returns the inscription content renderer token images point at.
+     *
+     * @returns contentBaseURI (string)
+     */
+    @method()
+    @returns({ name: 'contentBaseURI', type: ABIDataTypes.STRING })
+    public getContentBaseURI(_calldata: Calldata): BytesWriter {
+        const contentBaseURI: string = this._contentBaseURI.value;
+
+        const writer: BytesWriter = new BytesWriter(4 + String.UTF8.byteLength(contentBaseURI));
+        writer.writeStringWithLength(contentBaseURI);
+        return writer;
+    }
+
+    // ─── Gasless transfers ────────────────────────────────────────────────────
+
+    /**
+     * Transfers a token from an owner-signed intent, so any relayer can pay
+     * the gas. The signature must be ML-DSA-44 by the owner's registered key.
+     *
+     * Intent hash (OP712, using this vault's domain separator):
+     *   structHash = sha256(sha256(OP721_TRANSFER_TYPE) || owner || to
+     *                       || tokenId || nonce_u256 || deadline_u64)
+     *   hash       = sha256(0x1901 || domainSeparator || structHash)
+     *
+     * `nonce` is the owner's OP721 signature nonce (nonceOf), shared with
+     * gasless approvals and bumped on every use. The transfer is a safe
+     * transfer: contract recipients must accept it via onOP721Received.
+     *
+     * @param calldata - owner (address), to (address), tokenId (u256),
+     *                   deadline (u64, block height), signature (bytes, ML-DSA-44)
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'owner', type: ABIDataTypes.ADDRESS },
+        { name: 'to', type: ABIDataTypes.ADDRESS },
+        { name: 'tokenId', type: ABIDataTypes.UINT256 },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+        { name: 'signature', type: ABIDataTypes.BYTES },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('Transferred')
+    public transferBySignature(calldata: Calldata): BytesWriter {
+        const owner: Address = calldata.readAddress();
+        const to: Address = calldata.readAddress();
+        const tokenId: u256 = calldata.readU256();
+        const deadline: u64 = calldata.readU64();
+        const signature: Uint8Array = calldata.readBytesWithLength();
+
+        if (this._ownerOf(tokenId) != owner) {
+            throw new Revert('OrdinalsVault: not token owner');
+        }
+
+        const typeHash: Uint8Array = sha256(Uint8Array.wrap(String.UTF8.encode(OP721_TRANSFER_TYPE)));
+        const struct: BytesWriter = new BytesWriter(32 + 32 + 32 + 32 + 32 + 8);
+        struct.writeBytes(typeHash);
+        struct.writeAddress(owner);
+        struct.writeAddress(to);
+        struct.writeU256(tokenId);
+        struct.writeU256(this._approveNonceMap.get(owner));
+        struct.writeU64(deadline);
+        this.verifyOwnerSignature(owner, struct, deadline, signature);
+
+        // The signature authorizes this one transfer: approve the submitter, which _transfer clears
+        this.tokenApprovalMap.set(tokenId, this._u256FromAddress(Blockchain.tx.sender));
+        this._safeTransfer(owner, to, tokenId, new Uint8Array(0));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * ML-DSA-44 counterpart of OP721's approveBySignature: same OP712 struct
+     * (OP721Approval), domain separator and nonce, but signed with the
+     * owner's post-quantum key instead of Schnorr.
+     *
+     * @param calldata - owner (address), spender (address), tokenId (u256),
+     *                   deadline (u64, block height), signature (bytes, ML-DSA-44)
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'owner', type: ABIDataTypes.ADDRESS },
+        { name: 'spender', type: ABIDataTypes.ADDRESS },
+        { name: 'tokenId', type: ABIDataTypes.UINT256 },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+        { name: 'signature', type: ABIDataTypes.BYTES },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('Approved')
+    public approveByMLDSASignature(calldata: Calldata): BytesWriter {
+        const owner: Address = calldata.readAddress();
+        const spender: Address = calldata.readAddress();
+        const tokenId: u256 = calldata.readU256();
+        const deadline: u64 = calldata.readU64();
+        const signature: Uint8Array = calldata.readBytesWithLength();
+
+        if (this._ownerOf(tokenId) != owner) {
+            throw new Revert('OrdinalsVault: not token owner');
+        }
+        if (spender.isZero() || spender == owner) {
+            throw new Revert('OrdinalsVault: invalid spender');
+        }
+
+        const struct: BytesWriter = new BytesWriter(32 + 32 + 32 + 32 + 32 + 8);
+        struct.writeBytesU8Array(OP721_APPROVAL_TYPE_HASH);
+        struct.writeAddress(owner);
+        struct.writeAddress(spender);
+        struct.writeU256(tokenId);
+        struct.writeU256(this._approveNonceMap.get(owner));
+        struct.writeU64(deadline);
+        this.verifyOwnerSignature(owner, struct, deadline, signature);
+
+        // _approve would check tx.sender, which is the relayer here
+        this.tokenApprovalMap.set(tokenId, this._u256FromAddress(spender));
+        this.createApprovedEvent(owner, spender, tokenId);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * ML-DSA-44 counterpart of OP721's setApprovalForAllBySignature, with the
+     * same OP712 struct (OP721ApprovalForAll), domain separator and nonce.
+     *
+     * @param calldata - owner (address), operator (address), approved (bool),
+     *                   deadline (u64, block height), signature (bytes, ML-DSA-44)
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'owner', type: ABIDataTypes.ADDRESS },
+        { name: 'operator', type: ABIDataTypes.ADDRESS },
+        { name: 'approved', type: ABIDataTypes.BOOL },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+        { name: 'signature', type: ABIDataTypes.BYTES },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('ApprovedForAll')
+    public setApprovalForAllByMLDSASignature(calldata: Calldata): BytesWriter {
+        const owner: Address = calldata.readAddress();
+        const operator: Address = calldata.readAddress();
+        const approved: bool = calldata.readBoolean();
+        const deadline: u64 = calldata.readU64();
+        const signature: Uint8Array = calldata.readBytesWithLength();
+
+        if (owner.isZero() || operator.isZero() || operator == owner) {
+            throw new Revert('OrdinalsVault: invalid operator');
+        }
+
+        const struct: BytesWriter = new BytesWriter(32 + 32 + 32 + 1 + 32 + 8);
+        struct.writeBytesU8Array(OP721_APPROVAL_FOR_ALL_TYPE_HASH);
+        struct.writeAddress(owner);
+        struct.writeAddress(operator);
+        struct.writeBoolean(approved);
+        struct.writeU256(this._approveNonceMap.get(owner));
+        struct.writeU64(deadline);
+        this.verifyOwnerSignature(owner, struct, deadline, signature);
+
+        this._setApprovalForAll(owner, operator, approved);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    // ─── Royalties ────────────────────────────────────────────────────────────
+
+    /**
+     * Sets the collection's default royalty. A zero receiver removes it
+     * (basisPoints must then be 0). Metadata manager only.
+     *
+     * @param calldata - receiver (address), basisPoints (u16, out of 10000)
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'receiver', type: ABIDataTypes.ADDRESS },
+        { name: 'basisPoints', type: ABIDataTypes.UINT16 },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('DefaultRoyaltyChanged')
+    public setDefaultRoyalty(calldata: Calldata): BytesWriter {
+        this._roles.onlyRole(ROLE_METADATA_MANAGER, Blockchain.tx.sender);
+        const receiver: Address = calldata.readAddress();
+        const basisPoints: u16 = calldata.readU16();
+
+        this.validateRoyalty(receiver, basisPoints);
+
+        this._defaultRoyaltyReceiver.value = receiver.isZero() ? u256.Zero : this._u256FromAddress(receiver);
+        this._defaultRoyaltyBps.value = u256.fromU32(<u32>basisPoints);
+
+        this.emitEvent(new DefaultRoyaltyChangedEvent(receiver, basisPoints));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Overrides the royalty of one token. A zero receiver clears the
+     * override so the default applies again. Metadata manager only.
+     *
+     * @param calldata - tokenId (u256), receiver (address), basisPoints (u16, out of 10000)
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'tokenId', type: ABIDataTypes.UINT256 },
+        { name: 'receiver', type: ABIDataTypes.ADDRESS },
+        { name: 'basisPoints', type: ABIDataTypes.UINT16 },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('TokenRoyaltyChanged')
+    public setTokenRoyalty(calldata: Calldata): BytesWriter {
+        this._roles.onlyRole(ROLE_METADATA_MANAGER, Blockchain.tx.sender);
+        const tokenId: u256 = calldata.readU256();
+        const receiver: Address = calldata.readAddress();
+        const basisPoints: u16 = calldata.readU16();
+
+        this.validateRoyalty(receiver, basisPoints);
+
+        if (receiver.isZero()) {
+            this._tokenRoyaltyReceiver.delete(tokenId);
+            this._tokenRoyaltyBps.delete(tokenId);
+        } else {
+            this._tokenRoyaltyReceiver.set(tokenId, this._u256FromAddress(receiver));
+            this._tokenRoyaltyBps.set(tokenId, u256.fromU32(<u32>basisPoints));
+        }
+
+        this.emitEvent(new TokenRoyaltyChangedEvent(tokenId, receiver, basisPoints));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Returns who should receive a royalty on a sale and how much:
+     * the token's override if set, else the collection default.
+     * royaltyAmount = salePrice * basisPoints / 10000, rounded down.
+     * Reverts for tokens that do not exist, like tokenURI and ownerOf.
+     *
+     * @param calldata - tokenId (u256), salePrice (u256, in any unit)
+     * @returns receiver (address, zero if no royalty), royaltyAmount (u256, same unit as salePrice)
+     */
+    @method(
+        { name: 'tokenId', type: ABIDataTypes.UINT256 },
+        { name: 'salePrice', type: ABIDataTypes.UINT256 },
+    )
+    @returns(
+        { name: 'receiver', type: ABIDataTypes.ADDRESS },
+        { name: 'royaltyAmount', type: ABIDataTypes.UINT256 },
+    )
+    public royaltyInfo(calldata: Calldata): BytesWriter {
+        const tokenId: u256 = calldata.readU256();
+        const salePrice: u256 = calldata.readU256();
+        if (!this._exists(tokenId)) throw new Revert('Token does not exist');
+
+        let receiver: u256 = this._tokenRoyaltyReceiver.get(tokenId);
+        let basisPoints: u256;
+        if (u256.eq(receiver, u256.Zero)) {
+            receiver = this._defaultRoyaltyReceiver.value;
+            basisPoints = this._defaultRoyaltyBps.value;
+        } else {
+            basisPoints = this._tokenRoyaltyBps.get(tokenId);
+        }
+
+        const royaltyAmount: u256 = SafeMath.div(
+            SafeMath.mul(salePrice, basisPoints),
+            u256.fromU32(<u32>ROYALTY_DENOMINATOR),
+        );
+
+        const writer: BytesWriter = new BytesWriter(32 + 32);
+        writer.writeAddress(this._addressFromU256(receiver));
+        writer.writeU256(royaltyAmount);
+        return writer;
+    }
+
+    // ─── Updates ──────────────────────────────────────────────────────────────
+
+    /**
+     * Schedules a bytecode update from an already deployed source contract.
+     * Holders get UPDATE_DELAY blocks to react before it can be applied.
+     * Admin only, so an admin handoff also hands over upgrades.
+     *
+     * @param calldata - sourceAddress (address)
+     */
+    @method({ name: 'sourceAddress', type: ABIDataTypes.ADDRESS })
+    @emit('UpdateSubmitted')
+    public submitUpdate(calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+        const sourceAddress: Address = calldata.readAddress();
+
+        if (this.hasPendingUpdate()) {
+            throw new Revert('OrdinalsVault: update already pending');
+        }
+        if (!Blockchain.isContract(sourceAddress)) {
+            throw new Revert('OrdinalsVault: update source must be a deployed contract');
+        }
+
+        const submitBlock: u64 = Blockchain.block.number;
+        this._pendingUpdateSource.value = sourceAddress;
+        this._pendingUpdateBlock.value = u256.fromU64(submitBlock);
+
+        this.emitEvent(new UpdateSubmittedEvent(sourceAddress, submitBlock, submitBlock + UPDATE_DELAY));
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Applies the pending update once the delay has passed. The new bytecode
+     * takes effect next block and runs onUpdate with `updateCalldata`.
+     * Admin only.
+     *
+     * @param calldata - sourceAddress (address, must match the pending update),
+     *                   updateCalldata (bytes, passed to onUpdate)
+     */
+    @method(
+        { name: 'sourceAddress', type: ABIDataTypes.ADDRESS },
+        { name: 'updateCalldata', type: ABIDataTypes.BYTES },
+    )
+    @emit('UpdateApplied')
+    public applyUpdate(calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+        const sourceAddress: Address = calldata.readAddress();
+        const updateCalldata: Uint8Array = calldata.readBytesWithLength();
+
+        if (!this.hasPendingUpdate()) {
+            throw new Revert('OrdinalsVault: no pending update');
+        }
+        if (Blockchain.block.number < this.updateEffectiveBlock()) {
+            throw new Revert('OrdinalsVault: update delay not elapsed');
+        }
+        if (sourceAddress != this._pendingUpdateSource.value) {
+            throw new Revert('OrdinalsVault: update source mismatch');
+        }
+
+        this.clearPendingUpdate();
+        this.emitEvent(new UpdateAppliedEvent(sourceAddress, Blockchain.block.number));
+
+        const writer: BytesWriter = new BytesWriter(updateCalldata.length);
+        writer.writeBytes(updateCalldata);
+        Blockchain.updateContractFromExisting(sourceAddress, writer);
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Cancels the pending update. Admin only.
+     */
+    @method()
+    @emit('UpdateCancelled')
+    public cancelUpdate(_calldata: Calldata): BytesWriter {
+        this._roles.onlyAdmin(Blockchain.tx.sender);
+        if (!this.hasPendingUpdate()) {
+            throw new Revert('OrdinalsVault: no pending update');
+        }
+
+        const sourceAddress: Address = this._pendingUpdateSource.value;
+        this.clearPendingUpdate();
+        this.emitEvent(new UpdateCancelledEvent(sourceAddress, Blockchain.block.number));
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Returns the pending update, if any.
+     *
+     * @returns sourceAddress (address, zero if none), submitBlock (u64),
+     *          effectiveBlock (u64, first block it can be applied)
+     */
+    @method()
+    @returns(
+        { name: 'sourceAddress', type: ABIDataTypes.ADDRESS },
+        { name: 'submitBlock', type: ABIDataTypes.UINT64 },
+        { name: 'effectiveBlock', type: ABIDataTypes.UINT64 },
+    )
+    public pendingUpdate(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(32 + 8 + 8);
+        writer.writeAddress(this._pendingUpdateSource.value);
+        writer.writeU64(this._pendingUpdateBlock.value.toU64());
+        writer.writeU64(this.updateEffectiveBlock());
+        return writer;
+    }
+
+    /**
+     * Returns the update timelock in blocks.
+     *
+     * @returns updateDelay (u64)
+     */
+    @method()
+    @returns({ name: 'updateDelay', type: ABIDataTypes.UINT64 })
+    public updateDelay(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(8);
+        writer.writeU64(UPDATE_DELAY);
+        return writer;
+    }
+
+    /**
+     * Returns the storage layout version this vault's data is in.
+     *
+     * @returns storageVersion (u32)
+     */
+    @method()
+    @returns({ name: 'storageVersion', type: ABIDataTypes.UINT32 })
+    public getStorageVersion(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(4);
+        writer.writeU32(this.storageVersion());
+        return writer;
+    }
+
+    // ─── Roles ────────────────────────────────────────────────────────────────
+
+    /**
+     * Grants a role to an account. Admin only.
+     *
+     * @param calldata - role (u8: 1 oracle manager, 2 metadata manager, 4 registrar),
+     *                   account (address)
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'role', type: ABIDataTypes.UINT8 },
+        { name: 'account', type: ABIDataTypes.ADDRESS },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('RoleGranted')
+    public grantRole(calldata: Calldata): BytesWriter {
+        const role: u8 = calldata.readU8();
+        const account: Address = calldata.readAddress();
+
+        this._roles.grantRole(role, account, Blockchain.tx.sender);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Revokes a role from an account. Admin only.
+     *
+     * @param calldata - role (u8), account (address)
+     * @returns success (bool)
+     */
+    @method(
+        { name: 'role', type: ABIDataTypes.UINT8 },
+        { name: 'account', type: ABIDataTypes.ADDRESS },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('RoleRevoked')
+    public revokeRole(calldata: Calldata): BytesWriter {
+        const role: u8 = calldata.readU8();
+        const account: Address = calldata.readAddress();
+
+        this._roles.revokeRole(role, account, Blockchain.tx.sender);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Whether an account holds a role (the admin holds every role).
+     *
+     * @param calldata - role (u8), account (address)
+     * @returns hasRole (bool)
+     */
+    @method(
+        { name: 'role', type: ABIDataTypes.UINT8 },
+        { name: 'account', type: ABIDataTypes.ADDRESS },
+    )
+    @returns({ name: 'hasRole', type: ABIDataTypes.BOOL })
+    public hasRole(calldata: Calldata): BytesWriter {
+        const role: u8 = calldata.readU8();
+        const account: Address = calldata.readAddress();
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(this._roles.hasRole(role, account));
+        return writer;
+    }
+
+    /**
+     * Starts a two-step admin handoff; the successor must call acceptAdmin.
+     * Pass the zero address to withdraw a pending proposal. Admin only.
+     *
+     * @param calldata - newAdmin (address)
+     * @returns success (bool)
+     */
+    @method({ name: 'newAdmin', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('AdminTransferStarted')
+    public transferAdmin(calldata: Calldata): BytesWriter {
+        const newAdmin: Address = calldata.readAddress();
+
+        this._roles.transferAdmin(newAdmin, Blockchain.tx.sender);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Completes the admin handoff. Pending admin only.
+     *
+     * @returns success (bool)
+     */
+    @method()
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('AdminTransferred')
+    public acceptAdmin(_calldata: Calldata): BytesWriter {
+        this._roles.acceptAdmin(Blockchain.tx.sender);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Returns the current and pending admin.
+     *
+     * @returns admin (address), pendingAdmin (address, zero if none)
+     */
+    @method()
+    @returns(
+        { name: 'admin', type: ABIDataTypes.ADDRESS },
+        { name: 'pendingAdmin', type: ABIDataTypes.ADDRESS },
+    )
+    public getAdmin(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(64);
+        writer.writeAddress(this._roles.admin);
+        writer.writeAddress(this._roles.pendingAdmin);
+        return writer;
+    }
+
+    // ─── Internal overrides ───────────────────────────────────────────────────
+
+    /**
+     * Same as OP721.burn, but custody-mode tokens cannot be burned: their
+     * inscription is held by the vault and only requestRedemption releases it.
+     */
+    public override burn(calldata: Calldata): BytesWriter {
+        if (this._vaultMode.value.toU32() == <u32>VAULT_MODE_CUSTODY) {
+            throw new Revert('OrdinalsVault: custody tokens are redeemed, not burned');
+        }
+
+        return super.burn(calldata);
+    }
+
+    /** Same as OP721.changeMetadata, but open to metadata managers as well as the admin */
+    public override changeMetadata(calldata: Calldata): BytesWriter {
+        this._roles.onlyRole(ROLE_METADATA_MANAGER, Blockchain.tx.sender);
+
+        const icon: string = calldata.readStringWithLength();
+        const banner: string = calldata.readStringWithLength();
+        const description: string = calldata.readStringWithLength();
+        const website: string = calldata.readStringWithLength();
+
+        if (icon.length == 0) throw new Revert('Icon cannot be empty');
+        if (banner.length == 0) throw new Revert('Banner cannot be empty');
+        if (description.length == 0) throw new Revert('Description cannot be empty');
+        if (website.length == 0) throw new Revert('Website cannot be empty');
+
+        this._icon.value = icon;
+        this._banner.value = banner;
+        this._description.value = description;
+        this._website.value = website;
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Returns the token's metadata as a `data:application/json;base64,` URI
+     * generated on-chain, so wallets can show bridged tokens without an
+     * off-chain metadata server:
+     *
+     *   name          "<collection name> #<tokenId>"
+     *   description   the collection description
+     *   image         contentBaseURI + inscription ID (omitted while no renderer is set)
+     *   animation_url same URL, for provenance-attested content that is not an image
+     *   inscription_id
+     *   attributes    Inscription ID, plus Inscription Number, Content Type, Sat
+     *                 and Bitcoin Block from the provenance record, and Parent in
+     *                 parent collections
+     */
+    public override tokenURI(calldata: Calldata): BytesWriter {
+        const tokenId: u256 = calldata.readU256();
+        if (!this._exists(tokenId)) throw new Revert('Token does not exist');
+
+        const inscriptionId: string = this.tokenInscription(tokenId).value;
+        const contentBaseURI: string = this._contentBaseURI.value;
+
+        let attributes: string = jsonAttribute('Inscription ID', jsonString(inscriptionId));
+        let contentType: string = '';
+        const provenance: u256 = this._tokenProvenance.get(tokenId);
+        if (!u256.eq(provenance, u256.Zero)) {
+            contentType = this.provenanceContentType(provenance).value;
+            const inscriptionNumber: i64 = <i64>this._provenanceInscriptionNumber.get(provenance).toU64();
+            attributes +=
+                ',' +
+                jsonAttribute('Inscription Number', inscriptionNumber.toString()) +
+                ',' +
+                jsonAttribute('Content Type', jsonString(contentType)) +
+                ',' +
+                jsonAttribute('Sat', this._provenanceSatNumber.get(provenance).toU64().toString()) +
+                ',' +
+                jsonAttribute('Bitcoin Block', this._provenanceBlockHeight.get(provenance).toU64().toString());
+        }
+        const parent: u256 = this._tokenParent.get(tokenId);
+        if (!u256.eq(parent, u256.Zero)) {
+            attributes += ',' + jsonAttribute('Parent', jsonString(this.parentInscriptionAt(parent.toU32() - 1).value));
+        }
+
+        let json: string =
+            '{"name":' +
+            jsonString(this._name.value + ' #' + tokenId.toString()) +
+            ',"description":' +
+            jsonString(this._description.value);
+        if (contentBaseURI.length > 0) {
+            const contentURI: string = jsonString(contentBaseURI + inscriptionId);
+            json += ',"image":' + contentURI;
+            if (contentType.length > 0 && !contentType.startsWith('image/')) {
+                json += ',"animation_url":' + contentURI;
+            }
+        }
+        json += ',"inscription_id":' + jsonString(inscriptionId) + ',"attributes":[' + attributes + ']}';
+
+        const uri: string = jsonDataURI(json);
+        const writer: BytesWriter = new BytesWriter(4 + uri.length);
+        writer.writeStringWithLength(uri);
+        return writer;
+    }
+
+    /** Same as OP721.setBaseURI, but open to metadata managers as well as the admin */
+    public override setBaseURI(calldata: Calldata): BytesWriter {
+        this._roles.onlyRole(ROLE_METADATA_MANAGER, Blockchain.tx.sender);
+
+        const baseURI: string = calldata.readStringWithLength();
+
+        if (baseURI.length == 0) throw new Revert('Base URI cannot be empty');
+        if (<u32>baseURI.length > MAX_URI_LENGTH) {
+            throw new Revert('Base URI exceeds maximum length');
+        }
+
+        this._setBaseURI(baseURI);
+
+        return new BytesWriter(0);
+    }
+
+    /** Blocks every OP721 transfer path while transfers are paused */
+    protected override _transfer(from: Address, to: Address, tokenId: u256): void {
+        this.whenNotPaused(PAUSE_TRANSFER);
+        super._transfer(from, to, tokenId);
+    }
+
+    // ─── Private helpers ──────────────────────────────────────────────────────
+
+    /**
+     * Counts a burn against the mint budget. Returns false once the current
+     * window's budget is spent; a new window opens with the first burn after
+     * the previous one ends.
+     */
+    private consumeMintBudget(): bool {
+        const maxBurns: u256 = this._mintBudgetMax.value;
+        if (u256.eq(maxBurns, u256.Zero)) {
+            return true;
+        }
+
+        const currentBlock: u256 = u256.fromU64(Blockchain.block.number);
+        const windowEnd: u256 = SafeMath.add(this._mintBudgetWindowStart.value, this._mintBudgetPeriod.value);
+        if (u256.ge(currentBlock, windowEnd)) {
+            this._mintBudgetWindowStart.value = currentBlock;
+            this._mintBudgetUsed.value = u256.Zero;
+        }
+
+        const used: u256 = this._mintBudgetUsed.value;
+        if (u256.ge(used, maxBurns)) {
+            return false;
+        }
+
+        this._mintBudgetUsed.value = SafeMath.add(used, u256.One);
+        return true;
+    }
+
+    /** Removes a burn from the review queue and returns its burner (packed as u256) */
+    private takePendingBurn(key: u256): u256 {
+        const burner: u256 = this._pendingBurner.get(key);
+        if (u256.eq(burner, u256.Zero)) {
+            throw new Revert('OrdinalsVault: no pending burn');
+        }
+
+        this._pendingBurner.delete(key);
+        this._pendingBurnBlock.delete(key);
+        this._pendingBurnCollection.delete(key);
+        this._pendingBurnCount.value = SafeMath.sub(this._pendingBurnCount.value, u256.One);
+
+        return burner;
+    }
+
+    /**
+     * Revokes a recorded, not yet minted burn while its challenge period
+     * lasts. The burn record is cleared so the inscription can be attested
+     * again, and the nonce is marked revoked.
+     */
+    private revokeRecordedBurn(key: u256, inscriptionId: string, byGuardian: bool): void {
+        const burner: u256 = this._verifiedBurns.get(key);
+        if (u256.eq(burner, u256.Zero)) {
+            throw new Revert('OrdinalsVault: burn not recorded');
+        }
+        if (!u256.eq(this._mintedInscriptions.get(key), u256.Zero)) {
+            throw new Revert('OrdinalsVault: inscription already minted');
+        }
+
+        const challengeEnd: u256 = SafeMath.add(this._burnBlockHeights.get(key), this._challengePeriod.value);
+        if (u256.gt(u256.fromU64(Blockchain.block.number), challengeEnd)) {
+            throw new Revert('OrdinalsVault: challenge period over');
+        }
+
+        const nonce: u256 = this._burnNonce.get(key);
+        this._usedNonces.set(nonce, u256.fromU64(NONCE_REVOKED));
+        this._burnRevokedBlock.set(key, u256.fromU64(Blockchain.block.number));
+        this._verifiedBurns.delete(key);
+        this._burnBlockHeights.delete(key);
+        this._burnProvenance.delete(key);
+        this._burnParent.delete(key);
+        this._burnsRevoked.value = SafeMath.add(this._burnsRevoked.value, u256.One);
+
+        this.emitEvent(new BurnRevokedEvent(inscriptionId, this._addressFromU256(burner), nonce, byGuardian));
+    }
+
+    /**
+     * Whether a burn of `key` may be recorded: always without an allowlist,
+     * else once proven. Collection index token IDs always need the proof.
+     */
+    private isAllowlisted(key: u256): bool {
+        if (u256.eq(this._allowlistRoot.value, u256.Zero) && this.tokenIdMode() != TOKEN_ID_COLLECTION_INDEX) {
+            return true;
+        }
+        return !u256.eq(this._allowlisted.get(key), u256.Zero);
+    }
+
+    private validateRoyalty(receiver: Address, basisPoints: u16): void {
+        if (basisPoints > ROYALTY_DENOMINATOR) {
+            throw new Revert('OrdinalsVault: royalty exceeds sale price');
+        }
+        if (receiver.isZero() && basisPoints != 0) {
+            throw new Revert('OrdinalsVault: royalty needs a receiver');
+        }
+    }
+
+    /** How token IDs are chosen (TOKEN_ID_*) */
+    private tokenIdMode(): u8 {
+        return <u8>this._tokenIdMode.value.toU32();
+    }
+
+    /**
+     * Picks the token ID for a bridged inscription according to the token ID
+     * mode. Sequential IDs advance _nextTokenId; the other modes derive the ID
+     * from the inscription, so uniqueness and maxSupply are checked here.
+     */
+    private bridgedTokenId(key: u256): u256 {
+        const mode: u8 = this.tokenIdMode();
+        if (mode == TOKEN_ID_SEQUENTIAL) {
+            const tokenId: u256 = this._nextTokenId.value;
+            if (u256.ge(tokenId, this.maxSupply)) {
+                throw new Revert('OrdinalsVault: max supply reached');
+            }
+            this._nextTokenId.value = SafeMath.add(tokenId, u256.One);
+            return tokenId;
+        }
 
-        const verified: bool = !u256.eq(this._verifiedBurns.get(key), u256.Zero);
-        const minted: bool = !u256.eq(this._mintedInscriptions.get(key), u256.Zero);
+        let tokenId: u256;
+        if (mode == TOKEN_ID_INSCRIPTION_NUMBER) {
+            const provenance: u256 = this._burnProvenance.get(key);
+            if (u256.eq(provenance, u256.Zero)) {
+                throw new Revert('OrdinalsVault: inscription number not attested');
+            }
+            tokenId = this._provenanceInscriptionNumber.get(provenance);
+        } else {
+            const position: u256 = this._allowlisted.get(key);
+            if (u256.eq(position, u256.Zero)) {
+                throw new Revert('OrdinalsVault: collection index not proven');
+            }
+            tokenId = SafeMath.sub(position, u256.One);
+        }
+
+        if (this._exists(tokenId)) {
+            throw new Revert('OrdinalsVault: token ID already minted');
+        }
+        if (u256.ge(this.totalSupply, this.maxSupply)) {
+            throw new Revert('OrdinalsVault: max supply reached');
+        }
+        return tokenId;
+    }
+
+    /** Storage layout version the data is in (0 = deployed before versioning) */
+    private storageVersion(): u32 {
+        return this._storageVersion.value.toU32();
+    }
+
+    private hasPendingUpdate(): bool {
+        return !u256.eq(this._pendingUpdateBlock.value, u256.Zero);
+    }
+
+    /** First block the pending update can be applied at (0 if none) */
+    private updateEffectiveBlock(): u64 {
+        const submitBlock: u64 = this._pendingUpdateBlock.value.toU64();
+        return submitBlock == 0 ? 0 : submitBlock + UPDATE_DELAY;
+    }
+
+    private clearPendingUpdate(): void {
+        this._pendingUpdateSource.value = Address.zero();
+        this._pendingUpdateBlock.value = u256.Zero;
+    }
+
+    /** Currently paused PAUSE_* bits */
+    private pausedFlags(): u8 {
+        return <u8>this._pausedFlags.value.toU32();
+    }
+
+    /** Reverts with a reason naming the paused feature */
+    private whenNotPaused(flag: u8): void {
+        if ((this.pausedFlags() & flag) == 0) {
+            return;
+        }
+        if (flag == PAUSE_ATTEST) {
+            throw new Revert('OrdinalsVault: attestations paused');
+        }
+        if (flag == PAUSE_MINT) {
+            throw new Revert('OrdinalsVault: minting paused');
+        }
+        throw new Revert('OrdinalsVault: transfers paused');
+    }
+
+    /**
+     * Mints the token for a verified burn to `recipient`.
+     * Callers are responsible for authorizing the recipient against the recorded burner.
+     *
+     * Requirements:
+     * - At least 1 block must have elapsed since the burn was recorded.
+     * - The inscription must not have been minted already.
+     */
+    private mintBridged(inscriptionId: string, key: u256, recipient: Address): u256 {
+        this.whenNotPaused(PAUSE_MINT);
+
+        const burnBlock: u256 = this._burnBlockHeights.get(key);
+        const currentBlock: u256 = u256.fromU64(Blockchain.block.number);
+        if (!u256.gt(currentBlock, burnBlock)) {
+            throw new Revert('OrdinalsVault: must wait 1 block after attestation');
+        }
+        if (!u256.gt(currentBlock, SafeMath.add(burnBlock, this._challengePeriod.value))) {
+            throw new Revert('OrdinalsVault: challenge period not over');
+        }
+
+        if (!u256.eq(this._mintedInscriptions.get(key), u256.Zero)) {
+            throw new Revert('OrdinalsVault: inscription already minted');
+        }
+
+        const tokenId: u256 = this.bridgedTokenId(key);
+
+        this._mint(recipient, tokenId);
+        this._mintedInscriptions.set(key, SafeMath.add(tokenId, u256.One));
+        this.tokenInscription(tokenId).value = inscriptionId;
+        this._tokenProvenance.set(tokenId, this._burnProvenance.get(key));
+        this._tokenParent.set(tokenId, this._burnParent.get(key));
+
+        const burner: u256 = this._verifiedBurns.get(key);
+        this._tokensMinted.value = SafeMath.add(this._tokensMinted.value, u256.One);
+        this._burnerMinted.set(burner, SafeMath.add(this._burnerMinted.get(burner), u256.One));
+
+        this.emitEvent(new MintEvent(inscriptionId, tokenId, recipient));
+
+        return tokenId;
+    }
+
+    private countRecordedBurn(burner: u256): void {
+        this._burnsRecorded.value = SafeMath.add(this._burnsRecorded.value, u256.One);
+        this._burnerRecorded.set(burner, SafeMath.add(this._burnerRecorded.get(burner), u256.One));
+    }
+
+    /**
+     * Pulls the bridge fee from `payer` to the fee recipient with the OP20's
+     * `transferFrom`. No-op when no fee is set or `payer` is exempt.
+     */
+    private chargeBridgeFee(payer: Address): void {
+        const amount: u256 = this._feeAmount.value;
+        if (u256.eq(amount, u256.Zero)) {
+            return;
+        }
+        if (!u256.eq(this._feeExempt.get(this._u256FromAddress(payer)), u256.Zero)) {
+            return;
+        }
+
+        TransferHelper.transferFrom(
+            this._addressFromU256(this._feeToken.value),
+            payer,
+            this._addressFromU256(this._feeRecipient.value),
+            amount,
+        );
+    }
+
+    private clearPendingFee(): void {
+        this._pendingFeeToken.value = u256.Zero;
+        this._pendingFeeAmount.value = u256.Zero;
+        this._pendingFeeRecipient.value = u256.Zero;
+        this._pendingFeeBlock.value = u256.Zero;
+    }
+
+    /**
+     * Checks an owner-signed OP712 intent for the gasless transfer and approval
+     * methods and consumes the owner's nonce. `struct` is the encoded struct,
+     * type hash first. Only ML-DSA-44 is accepted: the key is the one
+     * registered for `owner`, so the signer is bound to the address.
+     */
+    private verifyOwnerSignature(owner: Address, struct: BytesWriter, deadline: u64, signature: Uint8Array): void {
+        if (Blockchain.block.number > deadline) {
+            throw new Revert('OrdinalsVault: signature expired');
+        }
+
+        const msg: BytesWriter = new BytesWriter(2 + 32 + 32);
+        msg.writeU16(0x1901);
+        msg.writeBytes(this._buildDomainSeparator());
+        msg.writeBytes(sha256(struct.getBuffer()));
+
+        // Only the ML-DSA half is used, so the Schnorr key stays zero
+        const signer: Uint8Array = new Uint8Array(64);
+        signer.set(owner, 32);
+        const ownerKey: ExtendedAddress = ExtendedAddress.fromUint8Array(signer);
+        if (!Blockchain.verifySignature(ownerKey, signature, sha256(msg.getBuffer()), SignaturesMethods.MLDSA)) {
+            throw new Revert('OrdinalsVault: invalid signature');
+        }
+
+        this._approveNonceMap.set(owner, SafeMath.add(this._approveNonceMap.get(owner), u256.One));
+    }
+
+    /** Reverts unless `caller` holds the mint right of a recorded burn */
+    private onlyRecordedBurner(key: u256, caller: Address): void {
+        const storedBurner: u256 = this._verifiedBurns.get(key);
+        if (u256.eq(storedBurner, u256.Zero)) {
+            throw new Revert('OrdinalsVault: burn not verified');
+        }
+        if (!u256.eq(storedBurner, this._u256FromAddress(caller))) {
+            throw new Revert('OrdinalsVault: caller is not the recorded burner');
+        }
+    }
+
+    /** Moves the mint right of an unminted burn from `burner` to `newBurner` */
+    private moveMintRight(key: u256, inscriptionId: string, burner: Address, newBurner: Address): void {
+        if (newBurner.isZero() || newBurner == burner) {
+            throw new Revert('OrdinalsVault: invalid new burner');
+        }
+        if (!u256.eq(this._mintedInscriptions.get(key), u256.Zero)) {
+            throw new Revert('OrdinalsVault: inscription already minted');
+        }
+
+        this._verifiedBurns.set(key, this._u256FromAddress(newBurner));
+        this._mintRightNonce.set(key, SafeMath.add(this._mintRightNonce.get(key), u256.One));
+
+        this.emitEvent(new MintRightTransferredEvent(inscriptionId, burner, newBurner));
+    }
+
+    /**
+     * Builds the hash a burner signs to authorize transferMintRightBySignature.
+     * Same envelope as mintFor intents.
+     */
+    private buildMintRightTransferHash(
+        key: u256,
+        burner: Address,
+        newBurner: Address,
+        nonce: u256,
+        deadline: u64,
+    ): Uint8Array {
+        const typeHash: Uint8Array = sha256(Uint8Array.wrap(String.UTF8.encode(MINT_RIGHT_TRANSFER_TYPE)));
+        const struct: BytesWriter = new BytesWriter(32 + 32 + 32 + 32 + 32 + 8);
+        struct.writeBytes(typeHash);
+        struct.writeU256(key);
+        struct.writeAddress(burner);
+        struct.writeAddress(newBurner);
+        struct.writeU256(nonce);
+        struct.writeU64(deadline);
+
+        const msg: BytesWriter = new BytesWriter(2 + 32 + 32);
+        msg.writeU16(0x1901);
+        msg.writeBytes(this._buildDomainSeparator());
+        msg.writeBytes(sha256(struct.getBuffer()));
+
+        return sha256(msg.getBuffer());
+    }
+
+    /**
+     * Builds the hash a burner signs to authorize mintFor.
+     * Layout mirrors OP721's approval signatures: 0x1901 || domainSeparator || structHash.
+     */
+    private buildMintForHash(
+        key: u256,
+        burner: Address,
+        feeToken: Address,
+        fee: u256,
+        nonce: u256,
+        deadline: u64,
+    ): Uint8Array {
+        const typeHash: Uint8Array = sha256(Uint8Array.wrap(String.UTF8.encode(MINT_FOR_TYPE)));
+        const struct: BytesWriter = new BytesWriter(32 + 32 + 32 + 32 + 32 + 32 + 32 + 32 + 8);
+        struct.writeBytes(typeHash);
+        struct.writeU256(key);
+        struct.writeAddress(burner);
+        struct.writeAddress(feeToken);
+        struct.writeU256(fee);
+        // The bridge fee currently charged by chargeBridgeFee
+        struct.writeU256(this._feeToken.value);
+        struct.writeU256(this._feeAmount.value);
+        struct.writeU256(nonce);
+        struct.writeU64(deadline);
+
+        const msg: BytesWriter = new BytesWriter(2 + 32 + 32);
+        msg.writeU16(0x1901);
+        msg.writeBytes(this._buildDomainSeparator());
+        msg.writeBytes(sha256(struct.getBuffer()));
+
+        return sha256(msg.getBuffer());
+    }
+
+    /**
+     * Shared path for v1 and v3 attestations: validates the attestation fields,
+     * checks the oracle signatures, then records the burn. `namesBurnAddress`
+     * selects the v3 hash, which commits to burnAddressHash; v1 hashes leave it
+     * out and callers pass the primary burn address.
+     */
+    private recordBurn(
+        inscriptionId: string,
+        burner: Address,
+        deadline: u64,
+        nonce: u256,
+        collectionIdHash: u256,
+        burnAddressHash: u256,
+        namesBurnAddress: bool,
+        oraclePublicKeys: Uint8Array[],
+        oracleSigs: Uint8Array[],
+    ): void {
+        const key: u256 = this.checkBurnClaim(
+            inscriptionId,
+            burner,
+            deadline,
+            nonce,
+            collectionIdHash,
+            burnAddressHash,
+            false,
+        );
+
+        // Verify at least `threshold` distinct oracles signed the attestation hash
+        const hash: Uint8Array = namesBurnAddress
+            ? this.buildAttestationHashV3(inscriptionId, burner, deadline, nonce, collectionIdHash, burnAddressHash)
+            : this.buildAttestationHash(inscriptionId, burner, deadline, nonce, collectionIdHash);
+        this.verifyOracleSignatures(hash, oraclePublicKeys, oracleSigs);
+
+        this.storeBurn(key, inscriptionId, burner, nonce, collectionIdHash);
+    }
+
+    /**
+     * Runs the per-burn checks shared by single and Merkle-batched attestations
+     * and returns the inscription's storage key. `hasInscriptionNumber` is
+     * true only for attestations carrying the inscription number (v2).
+     */
+    private checkBurnClaim(
+        inscriptionId: string,
+        burner: Address,
+        deadline: u64,
+        nonce: u256,
+        collectionIdHash: u256,
+        burnAddressHash: u256,
+        hasInscriptionNumber: bool,
+    ): u256 {
+        this.whenNotPaused(PAUSE_ATTEST);
+
+        // 1. Deadline check (block height — tamper-proof)
+        if (Blockchain.block.number > deadline) {
+            throw new Revert('OrdinalsVault: attestation expired');
+        }
+
+        // 2. Anti-replay: nonce must not have been used
+        if (!u256.eq(this._usedNonces.get(nonce), u256.Zero)) {
+            throw new Revert('OrdinalsVault: nonce already used');
+        }
+
+        // 3. Inscription ID must be canonical, and its burn not already recorded
+        const key: u256 = this.inscriptionKey(inscriptionId);
+        if (burner.isZero()) {
+            throw new Revert('OrdinalsVault: invalid burner');
+        }
+        if (!u256.eq(this._verifiedBurns.get(key), u256.Zero)) {
+            throw new Revert('OrdinalsVault: burn already recorded');
+        }
+        if (!u256.eq(this._pendingBurner.get(key), u256.Zero)) {
+            throw new Revert('OrdinalsVault: burn pending review');
+        }
+        if (!u256.eq(this._mintedInscriptions.get(key), u256.Zero)) {
+            throw new Revert('OrdinalsVault: inscription already minted');
+        }
+
+        // 4. Verify collection binding — attestation must be for THIS collection
+        const storedCollectionId: u256 = this._collectionIdHash.value;
+        if (!u256.eq(this._parentCount.value, u256.Zero)) {
+            // Parent collection: collectionIdHash carries sha256 of the child's parent inscription ID
+            if (u256.eq(this._parentIndex.get(collectionIdHash), u256.Zero)) {
+                throw new Revert('OrdinalsVault: parent inscription not accepted');
+            }
+        } else if (!u256.eq(storedCollectionId, u256.Zero)) {
+            // Collection-specific vault: collectionIdHash must match exactly
+            if (!u256.eq(collectionIdHash, storedCollectionId)) {
+                throw new Revert('OrdinalsVault: collection ID mismatch');
+            }
+        }
+
+        // 5. The inscription must have gone to a currently accepted burn address
+        if (u256.eq(this._burnAddressIndex.get(burnAddressHash), u256.Zero)) {
+            throw new Revert('OrdinalsVault: burn address not accepted');
+        }
+
+        // 6. Curated vaults: the inscription must be proven to be in the allowlist
+        if (!this.isAllowlisted(key)) {
+            throw new Revert('OrdinalsVault: inscription not in allowlist');
+        }
+
+        // 7. The burn must carry what its token ID will be derived from
+        if (this.tokenIdMode() == TOKEN_ID_INSCRIPTION_NUMBER && !hasInscriptionNumber) {
+            throw new Revert('OrdinalsVault: inscription number attestation required');
+        }
+
+        return key;
+    }
+
+    /**
+     * Marks the nonce used and records an attested burn, or holds it for
+     * review when the mint budget for the current window is spent.
+     */
+    private storeBurn(key: u256, inscriptionId: string, burner: Address, nonce: u256, collectionIdHash: u256): void {
+        this._usedNonces.set(nonce, u256.One);
+        this._burnNonce.set(key, nonce);
+        this._burnRevokedBlock.delete(key);
+        this._burnParent.set(key, this._parentIndex.get(collectionIdHash));
+
+        if (!this.consumeMintBudget()) {
+            this._pendingBurner.set(key, this._u256FromAddress(burner));
+            this._pendingBurnBlock.set(key, u256.fromU64(Blockchain.block.number));
+            this._pendingBurnCollection.set(key, collectionIdHash);
+            this._pendingBurnCount.value = SafeMath.add(this._pendingBurnCount.value, u256.One);
+
+            this.emitEvent(new BurnQueuedForReviewEvent(inscriptionId, burner, nonce, Blockchain.block.number));
+            return;
+        }
+
+        this._verifiedBurns.set(key, this._u256FromAddress(burner));
+        this._burnBlockHeights.set(key, u256.fromU64(Blockchain.block.number));
+        this.countRecordedBurn(this._u256FromAddress(burner));
+
+        this.emitEvent(new BurnRecordedEvent(inscriptionId, burner, nonce, collectionIdHash, Blockchain.block.number));
+    }
+
+    /**
+     * Verifies oracle signatures over `hash` under the vault's signature policy.
+     *
+     * For each (publicKey, signature) pair:
+     *   1. sha256(publicKey) must be a registered oracle key hash, or the
+     *      outgoing key of the last rotation while its grace period lasts
+     *   2. the same oracle may not sign twice (an outgoing key and its
+     *      successor count as one oracle)
+     *   3. verifyOracleSignature must succeed
+     * Reverts unless the number of valid distinct signers reaches the threshold,
+     * and always while no threshold is set.
+     */
+    private verifyOracleSignatures(hash: Uint8Array, publicKeys: Uint8Array[], sigs: Uint8Array[]): void {
+        if (publicKeys.length != sigs.length) {
+            throw new Revert('OrdinalsVault: oracle key/signature count mismatch');
+        }
+        if (<u32>publicKeys.length > MAX_ORACLES) {
+            throw new Revert('OrdinalsVault: too many oracle signatures');
+        }
+
+        // A zero threshold would accept attestations without any signature
+        const threshold: u256 = this._oracleThreshold.value;
+        if (u256.eq(threshold, u256.Zero)) {
+            throw new Revert('OrdinalsVault: oracle threshold not set');
+        }
+
+        const signers: u256[] = [];
+        for (let i: i32 = 0; i < publicKeys.length; i++) {
+            const pubKeyHash: u256 = u256.fromBytes(sha256(publicKeys[i]), false);
+            const signer: u256 = this.resolveOracleSigner(pubKeyHash);
+            if (u256.eq(signer, u256.Zero)) {
+                throw new Revert('OrdinalsVault: unknown oracle public key');
+            }
+
+            for (let j: i32 = 0; j < signers.length; j++) {
+                if (u256.eq(signers[j], signer)) {
+                    throw new Revert('OrdinalsVault: duplicate oracle signer');
+                }
+            }
+
+            if (!this.verifyOracleSignature(publicKeys[i], sigs[i], hash)) {
+                throw new Revert('OrdinalsVault: invalid oracle signature');
+            }
+
+            signers.push(signer);
+        }
+
+        if (u256.lt(u256.fromU32(<u32>signers.length), threshold)) {
+            throw new Revert('OrdinalsVault: not enough oracle signatures');
+        }
+    }
+
+    /**
+     * Verifies one oracle's signature over `hash`:
+     *   - ML-DSA-44: 1312-byte public key, 2420-byte signature
+     *   - Schnorr: 32-byte x-only public key, 64-byte signature
+     *   - hybrid: ML-DSA-44 key ‖ Schnorr key, ML-DSA-44 signature ‖ Schnorr
+     *     signature — both must be valid over the same hash
+     */
+    private verifyOracleSignature(publicKey: Uint8Array, signature: Uint8Array, hash: Uint8Array): bool {
+        const policy: u8 = this.signaturePolicy();
+        if (policy == SIG_POLICY_MLDSA) {
+            return Blockchain.verifyMLDSASignature(MLDSASecurityLevel.Level2, publicKey, signature, hash);
+        }
+        if (policy == SIG_POLICY_SCHNORR) {
+            return this.verifyOracleSchnorr(publicKey, signature, hash);
+        }
+
+        if (publicKey.length <= SCHNORR_PUBLIC_KEY_LENGTH || signature.length <= SCHNORR_SIGNATURE_LENGTH) {
+            throw new Revert('OrdinalsVault: invalid hybrid oracle signature');
+        }
+        const mldsaKeyLength: i32 = publicKey.length - SCHNORR_PUBLIC_KEY_LENGTH;
+        const mldsaSigLength: i32 = signature.length - SCHNORR_SIGNATURE_LENGTH;
+        // slice, not subarray: the host reads whole backing buffers
+        return (
+            Blockchain.verifyMLDSASignature(
+                MLDSASecurityLevel.Level2,
+                publicKey.slice(0, mldsaKeyLength),
+                signature.slice(0, mldsaSigLength),
+                hash,
+            ) && this.verifyOracleSchnorr(publicKey.slice(mldsaKeyLength), signature.slice(mldsaSigLength), hash)
+        );
+    }
+
+    /** Verifies a BIP-340 Schnorr signature by a 32-byte x-only oracle key */
+    private verifyOracleSchnorr(publicKey: Uint8Array, signature: Uint8Array, hash: Uint8Array): bool {
+        if (publicKey.length != SCHNORR_PUBLIC_KEY_LENGTH || signature.length != SCHNORR_SIGNATURE_LENGTH) {
+            throw new Revert('OrdinalsVault: invalid Schnorr oracle signature');
+        }
+
+        // Oracles are identified by their key alone, so the ML-DSA half of the address stays zero.
+        // verifySignature is not used: it stops accepting Schnorr once consensus disallows it,
+        // which would brick a Schnorr-only vault instead of leaving the choice to its deployer.
+        const key: Uint8Array = new Uint8Array(64);
+        key.set(publicKey);
+        return Blockchain.verifySchnorrSignature(ExtendedAddress.fromUint8Array(key), signature, hash);
+    }
+
+    /** Which signatures oracles must produce (SIG_POLICY_*) */
+    private signaturePolicy(): u8 {
+        return <u8>this._signaturePolicy.value.toU32();
+    }
+
+    /**
+     * Maps a signer's key hash to the oracle identity it counts as.
+     * Returns the key hash itself for registered oracles, the successor's hash
+     * for the outgoing key during its grace period, and zero otherwise.
+     */
+    private resolveOracleSigner(keyHash: u256): u256 {
+        if (!u256.eq(this._oracleIndex.get(keyHash), u256.Zero)) {
+            return keyHash;
+        }
+
+        if (
+            u256.eq(keyHash, this._retiredOracleKey.value) &&
+            Blockchain.block.number <= this._retiredOracleUntil.value.toU64()
+        ) {
+            const successor: u256 = this._retiredOracleSuccessor.value;
+            if (!u256.eq(this._oracleIndex.get(successor), u256.Zero)) {
+                return successor;
+            }
+        }
+
+        return u256.Zero;
+    }
+
+    /** Rotation timelock in blocks, falling back to the default for vaults deployed before it existed. */
+    private oracleRotationDelay(): u64 {
+        const delay: u64 = this._oracleRotationDelay.value.toU64();
+        return delay == 0 ? DEFAULT_ORACLE_ROTATION_DELAY : delay;
+    }
+
+    /**
+     * Reverts unless 1 ≤ threshold ≤ oracle count, counting a pending removal
+     * as already applied so it cannot later leave the set below the threshold.
+     */
+    private checkOracleThreshold(threshold: u32): void {
+        if (threshold == 0) {
+            throw new Revert('OrdinalsVault: threshold must be at least 1');
+        }
+
+        let count: u256 = this._oracleCount.value;
+        if (this.hasPendingOracleRemoval()) {
+            count = SafeMath.sub(count, u256.One);
+        }
+        if (u256.gt(u256.fromU32(threshold), count)) {
+            throw new Revert('OrdinalsVault: threshold exceeds oracle count');
+        }
+    }
+
+    /** True while a removeOracle proposal is waiting for its timelock */
+    private hasPendingOracleRemoval(): bool {
+        return (
+            !u256.eq(this._pendingOracleBlock.value, u256.Zero) &&
+            !u256.eq(this._pendingOracleOld.value, u256.Zero) &&
+            u256.eq(this._pendingOracleNew.value, u256.Zero)
+        );
+    }
+
+    private changeOracleThreshold(threshold: u32): void {
+        const previous: u32 = this._oracleThreshold.value.toU32();
+        this._oracleThreshold.value = u256.fromU32(threshold);
+        this.emitEvent(new OracleThresholdChangedEvent(previous, threshold));
+    }
+
+    private clearPendingOracleThreshold(): void {
+        this._pendingOracleThreshold.value = u256.Zero;
+        this._pendingOracleThresholdBlock.value = u256.Zero;
+    }
+
+    private clearPendingOracleRotation(): void {
+        this._pendingOracleOld.value = u256.Zero;
+        this._pendingOracleNew.value = u256.Zero;
+        this._pendingOracleBlock.value = u256.Zero;
+    }
+
+    /** Appends a key hash to the oracle set. */
+    private addOracleKey(keyHash: u256): void {
+        if (u256.eq(keyHash, u256.Zero)) {
+            throw new Revert('OrdinalsVault: invalid oracle key hash');
+        }
+        if (!u256.eq(this._oracleIndex.get(keyHash), u256.Zero)) {
+            throw new Revert('OrdinalsVault: oracle already registered');
+        }
+
+        const index: u256 = this._oracleCount.value;
+        if (u256.ge(index, u256.fromU32(MAX_ORACLES))) {
+            throw new Revert('OrdinalsVault: oracle set is full');
+        }
+
+        this._oracleByIndex.set(index, keyHash);
+        this._oracleIndex.set(keyHash, SafeMath.add(index, u256.One));
+        this._oracleCount.value = SafeMath.add(index, u256.One);
+
+        this.emitEvent(new OracleChangedEvent(u256.Zero, keyHash));
+    }
+
+    /** Swaps a registered key hash for a new one in place, keeping its index. */
+    private replaceOracleKey(oldKeyHash: u256, newKeyHash: u256): void {
+        const indexPlusOne: u256 = this._oracleIndex.get(oldKeyHash);
+        if (u256.eq(indexPlusOne, u256.Zero)) {
+            throw new Revert('OrdinalsVault: oracle not registered');
+        }
+        if (!u256.eq(this._oracleIndex.get(newKeyHash), u256.Zero)) {
+            throw new Revert('OrdinalsVault: oracle already registered');
+        }
+
+        this._oracleByIndex.set(SafeMath.sub(indexPlusOne, u256.One), newKeyHash);
+        this._oracleIndex.delete(oldKeyHash);
+        this._oracleIndex.set(newKeyHash, indexPlusOne);
+
+        this.emitEvent(new OracleChangedEvent(oldKeyHash, newKeyHash));
+    }
+
+    /** Removes a key hash from the oracle set (swap-and-pop). */
+    private removeOracleKey(keyHash: u256): void {
+        const indexPlusOne: u256 = this._oracleIndex.get(keyHash);
+        if (u256.eq(indexPlusOne, u256.Zero)) {
+            throw new Revert('OrdinalsVault: oracle not registered');
+        }
+
+        const index: u256 = SafeMath.sub(indexPlusOne, u256.One);
+        const lastIndex: u256 = SafeMath.sub(this._oracleCount.value, u256.One);
+
+        if (!u256.eq(index, lastIndex)) {
+            const lastKeyHash: u256 = this._oracleByIndex.get(lastIndex);
+            this._oracleByIndex.set(index, lastKeyHash);
+            this._oracleIndex.set(lastKeyHash, indexPlusOne);
+        }
+
+        this._oracleByIndex.delete(lastIndex);
+        this._oracleIndex.delete(keyHash);
+        this._oracleCount.value = lastIndex;
 
-        const writer: BytesWriter = new BytesWriter(2);
-        writer.writeBoolean(verified);
-        writer.writeBoolean(minted);
-        return writer;
+        this.emitEvent(new OracleChangedEvent(keyHash, u256.Zero));
     }
 
     /**
-     * Returns the Bitcoin burn address for this collection.
+     * Builds the attestation hash that the oracle must sign.
      *
-     * @returns burnAddress (string)
+     * Layout (all big-endian):
+     *   contractAddress (32) | inscriptionId_len (4) | inscriptionId_bytes (n)
+     *   | burner (32) | deadline (8) | nonce (32) | collectionIdHash (32)
+     *
+     * This layout must match the oracle plugin's `buildAttestationHash` exactly.
      */
-    @method()
-    @returns({ name: 'burnAddress', type: ABIDataTypes.STRING })
-    public getBurnAddress(_: Calldata): BytesWriter {
-        const addr: string = this._burnAddress.value;
-        const encoded: ArrayBuffer = String.UTF8.encode(addr);
-        const bytes: Uint8Array = Uint8Array.wrap(encoded);
-        const writer: BytesWriter = new BytesWriter(4 + bytes.length);
-        writer.writeU32(bytes.length);
-        writer.writeBytes(bytes);
-        return writer;
+    private buildAttestationHash(
+        inscriptionId: string,
+        burner: Address,
+        deadline: u64,
+        nonce: u256,
+        collectionIdHash: u256,
+    ): Uint8Array {
+        const inscBytes: Uint8Array = Uint8Array.wrap(String.UTF8.encode(inscriptionId));
+        const msgLen: i32 = 32 + 4 + inscBytes.length + 32 + 8 + 32 + 32;
+        const msg: BytesWriter = new BytesWriter(msgLen);
+
+        msg.writeAddress(Blockchain.contract.address);
+        msg.writeU32(u32(inscBytes.length));
+        msg.writeBytes(inscBytes);
+        msg.writeAddress(burner);
+        msg.writeU64(deadline);
+        msg.writeU256(nonce);
+        msg.writeU256(collectionIdHash);
+
+        return sha256(msg.getBuffer());
     }
 
     /**
-     * Returns the collection ID hash for this vault.
-     * u256.Zero means universal mode (any inscription accepted).
+     * Builds the version 3 attestation hash, which names the burn address.
      *
-     * @returns collectionIdHash (u256)
+     * Layout (all big-endian):
+     *   sha256("OrdinalsVault:AttestationV3") (32) | contractAddress (32)
+     *   | inscriptionId_len (4) | inscriptionId_bytes (n) | burner (32)
+     *   | deadline (8) | nonce (32) | collectionIdHash (32) | burnAddressHash (32)
+     *
+     * This layout must match the oracle plugin's `buildAttestationHashV3` exactly.
      */
-    @method()
-    @returns({ name: 'collectionIdHash', type: ABIDataTypes.UINT256 })
-    public getCollectionId(_calldata: Calldata): BytesWriter {
-        const writer: BytesWriter = new BytesWriter(32);
-        writer.writeU256(this._collectionIdHash.value);
-        return writer;
-    }
+    private buildAttestationHashV3(
+        inscriptionId: string,
+        burner: Address,
+        deadline: u64,
+        nonce: u256,
+        collectionIdHash: u256,
+        burnAddressHash: u256,
+    ): Uint8Array {
+        const inscBytes: Uint8Array = Uint8Array.wrap(String.UTF8.encode(inscriptionId));
+        const msgLen: i32 = 32 + 32 + 4 + inscBytes.length + 32 + 8 + 32 + 32 + 32;
+        const msg: BytesWriter = new BytesWriter(msgLen);
 
-    // ─── Private helpers ──────────────────────────────────────────────────────
+        msg.writeBytes(sha256(Uint8Array.wrap(String.UTF8.encode('OrdinalsVault:AttestationV3'))));
+        msg.writeAddress(Blockchain.contract.address);
+        msg.writeU32(u32(inscBytes.length));
+        msg.writeBytes(inscBytes);
+        msg.writeAddress(burner);
+        msg.writeU64(deadline);
+        msg.writeU256(nonce);
+        msg.writeU256(collectionIdHash);
+        msg.writeU256(burnAddressHash);
+
+        return sha256(msg.getBuffer());
+    }
 
     /**
-     * Builds the attestation hash that the oracle must sign.
+     * Builds the version 2 attestation hash, which carries provenance fields.
      *
      * Layout (all big-endian):
-     *   contractAddress (32) | inscriptionId_len (4) | inscriptionId_bytes (n)
-     *   | burner (32) | deadline (8) | nonce (32) | collectionIdHash (32)
+     *   sha256("OrdinalsVault:AttestationV2") (32) | contractAddress (32)
+     *   | inscriptionId_len (4) | inscriptionId_bytes (n) | burner (32)
+     *   | deadline (8) | nonce (32) | collectionIdHash (32) | burnAddressHash (32)
+     *   | burnTxid (32)
+     *   | btcBlockHeight (8) | inscriptionNumber (8, i64) | contentType_len (4)
+     *   | contentType_bytes (m) | satNumber (8)
      *
-     * This layout must match the oracle plugin's `buildAttestationHash` exactly.
+     * The leading tag keeps v2 attestations from ever being valid v1 or v3 attestations.
+     * This layout must match the oracle plugin's `buildAttestationHashV2` exactly.
      */
-    private buildAttestationHash(
+    private buildAttestationHashV2(
         inscriptionId: string,
         burner: Address,
         deadline: u64,
         nonce: u256,
         collectionIdHash: u256,
+        burnAddressHash: u256,
+        burnTxid: u256,
+        btcBlockHeight: u64,
+        inscriptionNumber: i64,
+        contentType: string,
+        satNumber: u64,
     ): Uint8Array {
         const inscBytes: Uint8Array = Uint8Array.wrap(String.UTF8.encode(inscriptionId));
-        const msgLen: i32 = 32 + 4 + inscBytes.length + 32 + 8 + 32 + 32;
+        const typeBytes: Uint8Array = Uint8Array.wrap(String.UTF8.encode(contentType));
+        const msgLen: i32 =
+            32 + 32 + 4 + inscBytes.length + 32 + 8 + 32 + 32 + 32 + 32 + 8 + 8 + 4 + typeBytes.length + 8;
         const msg: BytesWriter = new BytesWriter(msgLen);
 
+        msg.writeBytes(sha256(Uint8Array.wrap(String.UTF8.encode('OrdinalsVault:AttestationV2'))));
         msg.writeAddress(Blockchain.contract.address);
         msg.writeU32(u32(inscBytes.length));
         msg.writeBytes(inscBytes);
@@ -372,30 +4830,462 @@ export class OrdinalsVault extends OP721 {
         msg.writeU64(deadline);
         msg.writeU256(nonce);
         msg.writeU256(collectionIdHash);
+        msg.writeU256(burnAddressHash);
+        msg.writeU256(burnTxid);
+        msg.writeU64(btcBlockHeight);
+        msg.writeI64(inscriptionNumber);
+        msg.writeU32(u32(typeBytes.length));
+        msg.writeBytes(typeBytes);
+        msg.writeU64(satNumber);
 
         return sha256(msg.getBuffer());
     }
 
     /**
-     * FNV-1a u64 hash of a string, returned as u256.
-     * Used as a storage key for inscription IDs.
+     * Builds the hash the oracles sign to say which inscription sits on a
+     * Bitcoin outpoint, for burns verified by recordBurnInTransaction. The
+     * burner is not part of it: the transaction spending the outpoint proves that.
+     *
+     * Layout (all big-endian):
+     *   sha256("OrdinalsVault:OutpointAttestation") (32) | contractAddress (32)
+     *   | inscriptionId_len (4) | inscriptionId_bytes (n) | outpointTxid (32)
+     *   | outpointIndex (2) | deadline (8) | nonce (32) | collectionIdHash (32)
+     *   | burnAddressHash (32)
      */
-    private hashString(s: string): u256 {
-        const bytes: Uint8Array = Uint8Array.wrap(String.UTF8.encode(s));
-        let h: u64 = 14695981039346656037;
-        for (let i: i32 = 0; i < bytes.length; i++) {
-            h ^= u64(bytes[i]);
-            h = (h * 1099511628211) & 0xffffffffffffffff;
+    private buildOutpointAttestationHash(
+        inscriptionId: string,
+        outpointTxid: u256,
+        outpointIndex: u16,
+        deadline: u64,
+        nonce: u256,
+        collectionIdHash: u256,
+        burnAddressHash: u256,
+    ): Uint8Array {
+        const inscBytes: Uint8Array = Uint8Array.wrap(String.UTF8.encode(inscriptionId));
+        const msgLen: i32 = 32 + 32 + 4 + inscBytes.length + 32 + 2 + 8 + 32 + 32 + 32;
+        const msg: BytesWriter = new BytesWriter(msgLen);
+
+        msg.writeBytes(sha256(Uint8Array.wrap(String.UTF8.encode('OrdinalsVault:OutpointAttestation'))));
+        msg.writeAddress(Blockchain.contract.address);
+        msg.writeU32(u32(inscBytes.length));
+        msg.writeBytes(inscBytes);
+        msg.writeU256(outpointTxid);
+        msg.writeU16(outpointIndex);
+        msg.writeU64(deadline);
+        msg.writeU256(nonce);
+        msg.writeU256(collectionIdHash);
+        msg.writeU256(burnAddressHash);
+
+        return sha256(msg.getBuffer());
+    }
+
+    /** Whether the current Bitcoin transaction spends `txid:index` */
+    private spendsOutpoint(txid: u256, index: u16): bool {
+        const inputs: TransactionInput[] = Blockchain.tx.inputs;
+        for (let i: i32 = 0; i < inputs.length; i++) {
+            const input: TransactionInput = inputs[i];
+            if (input.outputIndex == index && u256.eq(u256.fromBytes(input.txId, true), txid)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /** Whether the current Bitcoin transaction has an output paying `burnAddress` */
+    private paysBurnAddress(burnAddress: string): bool {
+        const outputs: TransactionOutput[] = Blockchain.tx.outputs;
+        for (let i: i32 = 0; i < outputs.length; i++) {
+            const to: string | null = outputs[i].to;
+            if (to !== null && to == burnAddress) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Builds the hash oracles sign to revoke a recorded burn.
+     *
+     * Layout (all big-endian):
+     *   sha256(sha256("OrdinalsVault:BurnRevocation") (32) | contract (32)
+     *          | inscriptionId_len (4) | inscriptionId_bytes (n) | nonce (32)
+     *          | deadline (8))
+     */
+    private buildRevocationHash(inscriptionId: string, nonce: u256, deadline: u64): Uint8Array {
+        const inscBytes: Uint8Array = Uint8Array.wrap(String.UTF8.encode(inscriptionId));
+        const msg: BytesWriter = new BytesWriter(32 + 32 + 4 + inscBytes.length + 32 + 8);
+
+        msg.writeBytes(sha256(Uint8Array.wrap(String.UTF8.encode('OrdinalsVault:BurnRevocation'))));
+        msg.writeAddress(Blockchain.contract.address);
+        msg.writeU32(<u32>inscBytes.length);
+        msg.writeBytes(inscBytes);
+        msg.writeU256(nonce);
+        msg.writeU64(deadline);
+
+        return sha256(msg.getBuffer());
+    }
+
+    /**
+     * Builds the hash the oracles sign to accept a Merkle root of burns.
+     *
+     * Layout (all big-endian):
+     *   sha256(tag) (32) | contractAddress (32) | root (32)
+     *   | fromBlock (8) | toBlock (8) | deadline (8)
+     *
+     * The leading tag keeps root attestations from ever being valid single attestations.
+     */
+    private buildAttestationRootHash(root: u256, fromBlock: u64, toBlock: u64, deadline: u64): Uint8Array {
+        const msg: BytesWriter = new BytesWriter(32 + 32 + 32 + 8 + 8 + 8);
+
+        msg.writeBytes(sha256(Uint8Array.wrap(String.UTF8.encode('OrdinalsVault:AttestationRoot'))));
+        msg.writeAddress(Blockchain.contract.address);
+        msg.writeU256(root);
+        msg.writeU64(fromBlock);
+        msg.writeU64(toBlock);
+        msg.writeU64(deadline);
+
+        return sha256(msg.getBuffer());
+    }
+
+    /**
+     * Builds a Merkle leaf for a batched burn attestation.
+     *
+     * Layout (all big-endian), hashed twice so a leaf can never be mistaken
+     * for a 64-byte inner node:
+     *   sha256(sha256(inscriptionId_len (4) | inscriptionId_bytes (n)
+     *                 | burner (32) | nonce (32) | collectionIdHash (32)
+     *                 | burnAddressHash (32)))
+     */
+    private buildBurnLeaf(
+        inscriptionId: string,
+        burner: Address,
+        nonce: u256,
+        collectionIdHash: u256,
+        burnAddressHash: u256,
+    ): u256 {
+        const inscBytes: Uint8Array = Uint8Array.wrap(String.UTF8.encode(inscriptionId));
+        const msg: BytesWriter = new BytesWriter(4 + inscBytes.length + 32 + 32 + 32 + 32);
+
+        msg.writeU32(u32(inscBytes.length));
+        msg.writeBytes(inscBytes);
+        msg.writeAddress(burner);
+        msg.writeU256(nonce);
+        msg.writeU256(collectionIdHash);
+        msg.writeU256(burnAddressHash);
+
+        return u256.fromBytes(sha256(sha256(msg.getBuffer())), true);
+    }
+
+    /** Allowlist leaf: sha256(sha256(inscriptionKey | index_u32_BE)) */
+    private buildAllowlistLeaf(key: u256, index: u32): u256 {
+        const msg: BytesWriter = new BytesWriter(32 + 4);
+        msg.writeU256(key);
+        msg.writeU32(index);
+        return u256.fromBytes(sha256(sha256(msg.getBuffer())), true);
+    }
+
+    /**
+     * Folds a Merkle proof into a root. Each level hashes the pair in
+     * ascending order, so proofs carry no left/right flags.
+     */
+    private computeMerkleRoot(leaf: u256, proof: u256[]): u256 {
+        let node: u256 = leaf;
+        for (let i: i32 = 0; i < proof.length; i++) {
+            const sibling: u256 = proof[i];
+            const pair: BytesWriter = new BytesWriter(64);
+            if (u256.lt(node, sibling)) {
+                pair.writeU256(node);
+                pair.writeU256(sibling);
+            } else {
+                pair.writeU256(sibling);
+                pair.writeU256(node);
+            }
+            node = u256.fromBytes(sha256(pair.getBuffer()), true);
+        }
+        return node;
+    }
+
+    /**
+     * Builds the redemption release hash that the oracle signs once the
+     * inscription has left custody.
+     *
+     * Layout (all big-endian):
+     *   sha256(tag) (32) | contractAddress (32) | tokenId (32) | releaseTxid (32)
+     *   | btcDestination_len (4) | btcDestination_bytes (n)
+     *
+     * The leading tag keeps release confirmations from ever being valid attestations.
+     */
+    private buildReleaseHash(tokenId: u256, releaseTxid: u256, btcDestination: string): Uint8Array {
+        const tag: Uint8Array = sha256(Uint8Array.wrap(String.UTF8.encode('OrdinalsVault:RedemptionRelease')));
+        const destBytes: Uint8Array = Uint8Array.wrap(String.UTF8.encode(btcDestination));
+        const msg: BytesWriter = new BytesWriter(32 + 32 + 32 + 32 + 4 + destBytes.length);
+
+        msg.writeBytes(tag);
+        msg.writeAddress(Blockchain.contract.address);
+        msg.writeU256(tokenId);
+        msg.writeU256(releaseTxid);
+        msg.writeU32(u32(destBytes.length));
+        msg.writeBytes(destBytes);
+
+        return sha256(msg.getBuffer());
+    }
+
+    /** Accepted burn address at `index` in the list */
+    private burnAddressAt(index: u32): StoredString {
+        return new StoredString(burnAddressByIndexPointer, <u64>index);
+    }
+
+    private parentInscriptionAt(index: u32): StoredString {
+        return new StoredString(parentByIndexPointer, <u64>index);
+    }
+
+    /** Adds a parent inscription at deployment; the ID must be canonical (see inscriptionKey) */
+    private addParentInscription(parentInscriptionId: string): void {
+        this.inscriptionKey(parentInscriptionId);
+
+        const parentHash: u256 = u256.fromBytes(sha256(Uint8Array.wrap(String.UTF8.encode(parentInscriptionId))), true);
+        if (!u256.eq(this._parentIndex.get(parentHash), u256.Zero)) {
+            throw new Revert('OrdinalsVault: duplicate parent inscription');
+        }
+
+        const count: u32 = this._parentCount.value.toU32();
+        this.parentInscriptionAt(count).value = parentInscriptionId;
+        this._parentIndex.set(parentHash, u256.fromU32(count + 1));
+        this._parentCount.value = u256.fromU32(count + 1);
+    }
+
+    /** Whether burns are bound to a collection, by BIS slug or by parent inscriptions */
+    private isCollectionMode(): bool {
+        return !u256.eq(this._collectionIdHash.value, u256.Zero) || !u256.eq(this._parentCount.value, u256.Zero);
+    }
+
+    /** Identifier attestations use for a burn address: sha256 of its UTF-8 bytes */
+    private burnAddressHash(burnAddress: string): u256 {
+        return u256.fromBytes(sha256(Uint8Array.wrap(String.UTF8.encode(burnAddress))), true);
+    }
+
+    /** Resolves an accepted burn address from its hash; reverts if it is not accepted */
+    private acceptedBurnAddress(addressHash: u256): string {
+        const indexPlusOne: u256 = this._burnAddressIndex.get(addressHash);
+        if (u256.eq(indexPlusOne, u256.Zero)) {
+            throw new Revert('OrdinalsVault: burn address not accepted');
+        }
+        return this.burnAddressAt(indexPlusOne.toU32() - 1).value;
+    }
+
+    /**
+     * Reverts unless `burnAddress` is a valid Bitcoin address for the current
+     * network in canonical (lowercase bech32m) P2TR form. A typo or a
+     * mainnet/testnet mix-up would make every burn unrecoverable.
+     */
+    private validateBurnAddress(burnAddress: string): void {
+        if (!Blockchain.validateBitcoinAddress(burnAddress)) {
+            throw new Revert('OrdinalsVault: invalid burn address');
+        }
+
+        const decoded: SegwitDecoded | null = Bech32.decodeOrNull(burnAddress);
+        if (
+            decoded === null ||
+            decoded.hrp != Network.hrp(Blockchain.network) ||
+            decoded.version != 1 ||
+            decoded.program.length != 32 ||
+            Bech32.encode(decoded.hrp, 1, decoded.program) != burnAddress
+        ) {
+            throw new Revert('OrdinalsVault: burn address must be a P2TR address for this network');
+        }
+    }
+
+    /** Appends a burn address to the accepted list */
+    private addBurnAddress(burnAddress: string): void {
+        const count: u32 = this._burnAddressCount.value.toU32();
+        if (count >= MAX_BURN_ADDRESSES) {
+            throw new Revert('OrdinalsVault: too many burn addresses');
+        }
+
+        this.burnAddressAt(count).value = burnAddress;
+        this._burnAddressIndex.set(this.burnAddressHash(burnAddress), u256.fromU32(count + 1));
+        this._burnAddressCount.value = u256.fromU32(count + 1);
+
+        this.emitEvent(new BurnAddressAddedEvent(burnAddress));
+    }
+
+    /** Removes a burn address from the accepted list (swap-and-pop) */
+    private retireBurnAddress(burnAddress: string): void {
+        const addressHash: u256 = this.burnAddressHash(burnAddress);
+        const indexPlusOne: u256 = this._burnAddressIndex.get(addressHash);
+        if (u256.eq(indexPlusOne, u256.Zero)) {
+            throw new Revert('OrdinalsVault: burn address not accepted');
+        }
+
+        const count: u32 = this._burnAddressCount.value.toU32();
+        if (count <= 1) {
+            throw new Revert('OrdinalsVault: cannot retire the last burn address');
+        }
+
+        const index: u32 = indexPlusOne.toU32() - 1;
+        const lastIndex: u32 = count - 1;
+        if (index != lastIndex) {
+            const lastAddress: string = this.burnAddressAt(lastIndex).value;
+            this.burnAddressAt(index).value = lastAddress;
+            this._burnAddressIndex.set(this.burnAddressHash(lastAddress), indexPlusOne);
+        }
+        this.burnAddressAt(lastIndex).value = '';
+        this._burnAddressIndex.delete(addressHash);
+        this._burnAddressCount.value = u256.fromU32(lastIndex);
+
+        if (this._burnAddress.value == burnAddress) {
+            this._burnAddress.value = this.burnAddressAt(0).value;
+        }
+
+        this.emitEvent(new BurnAddressRetiredEvent(burnAddress));
+    }
+
+    /**
+     * Inscription ID a token was minted for (empty for tokens minted before this was tracked).
+     * Token IDs fit in a u64: sequential IDs stay below maxSupply, which
+     * onDeployment caps at u64, and inscription numbers and collection
+     * indexes are u64 to begin with.
+     */
+    private tokenInscription(tokenId: u256): StoredString {
+        return new StoredString(tokenInscriptionPointer, tokenId.toU64());
+    }
+
+    /** Bitcoin address a redeemed token's inscription should be released to (keyed like tokenInscription) */
+    private redemptionDestination(tokenId: u256): StoredString {
+        return new StoredString(redemptionDestinationPointer, tokenId.toU64());
+    }
+
+    /** Content type of a provenance record */
+    private provenanceContentType(index: u256): StoredString {
+        return new StoredString(provenanceContentTypePointer, index.toU64());
+    }
+
+    /**
+     * Storage key for an inscription: sha256 of its binary outpoint.
+     *
+     * The inscription ID must be canonical — `<txid>i<index>` where txid is
+     * exactly 64 lowercase hex characters and index is a decimal u32 with no
+     * sign, padding or leading zeros. Any other spelling of the same
+     * inscription reverts instead of producing a second key.
+     *
+     * Outpoint layout (Bitcoin wire order): txid (32, internal byte order,
+     * i.e. the displayed hex reversed) | index (4, u32 little-endian)
+     */
+    private inscriptionKey(inscriptionId: string): u256 {
+        const len: i32 = inscriptionId.length;
+        if (len < 66 || len > 75 || inscriptionId.charCodeAt(64) != 0x69 /* 'i' */) {
+            throw new Revert('OrdinalsVault: malformed inscription ID');
+        }
+
+        const outpoint: Uint8Array = new Uint8Array(36);
+        for (let i: i32 = 0; i < 32; i++) {
+            const hi: i32 = this.hexNibble(inscriptionId.charCodeAt(i * 2));
+            const lo: i32 = this.hexNibble(inscriptionId.charCodeAt(i * 2 + 1));
+            outpoint[31 - i] = <u8>((hi << 4) | lo);
+        }
+
+        const digits: i32 = len - 65;
+        if (digits > 1 && inscriptionId.charCodeAt(65) == 0x30 /* '0' */) {
+            throw new Revert('OrdinalsVault: malformed inscription ID');
+        }
+
+        let index: u64 = 0;
+        for (let i: i32 = 65; i < len; i++) {
+            const c: i32 = inscriptionId.charCodeAt(i);
+            if (c < 0x30 || c > 0x39) {
+                throw new Revert('OrdinalsVault: malformed inscription ID');
+            }
+            index = index * 10 + <u64>(c - 0x30);
+        }
+        if (index > <u64>u32.MAX_VALUE) {
+            throw new Revert('OrdinalsVault: malformed inscription ID');
+        }
+
+        const writer: BytesWriter = new BytesWriter(4);
+        writer.writeU32(<u32>index, false);
+        outpoint.set(writer.getBuffer(), 32);
+
+        return u256.fromBytes(sha256(outpoint), true);
+    }
+
+    /** Value of a lowercase hex digit; reverts on anything else (including uppercase). */
+    private hexNibble(c: i32): i32 {
+        if (c >= 0x30 && c <= 0x39) return c - 0x30;
+        if (c >= 0x61 && c <= 0x66) return c - 0x61 + 10;
+        throw new Revert('OrdinalsVault: malformed inscription ID');
+    }
+
+    /**
+     * Layout 0 → 1. Not reachable from the original, non-updatable release
+     * (see STORAGE_VERSION); kept so a versionless store is migrated rather
+     * than read as layout 1.
+     *
+     * Vaults deployed before canonical inscription keys stored their burn and
+     * mint records under a 64-bit FNV-1a hash of the inscription ID, with the
+     * burner kept only as an FNV-1a hash of its hex string. Storage maps cannot
+     * be enumerated, so the records to migrate are passed in the update calldata:
+     *
+     * @param calldata - count (u32), then per record: inscriptionId (string),
+     *                   burner (address — must hash to the stored burner hash;
+     *                   ignored for records that were never verified)
+     *
+     * Vaults deployed before the burn address list get their single burn
+     * address registered as the first accepted one, and vaults deployed before
+     * the oracle set get their single oracle key as a 1-of-1 set with the
+     * default rotation timelock.
+     */
+    private migrateToV1(calldata: Calldata): void {
+        if (u256.eq(this._burnAddressCount.value, u256.Zero)) {
+            this.addBurnAddress(this._burnAddress.value);
+        }
+        if (u256.eq(this._oracleCount.value, u256.Zero)) {
+            this.addOracleKey(new StoredU256(oracleKeyHashPointer, EMPTY_POINTER).value);
+            this._oracleThreshold.value = u256.One;
+            this._oracleRotationDelay.value = u256.fromU64(DEFAULT_ORACLE_ROTATION_DELAY);
+            this._oracleGracePeriod.value = u256.fromU64(DEFAULT_ORACLE_GRACE_PERIOD);
+        }
+
+        const count: u32 = calldata.readU32();
+        for (let i: u32 = 0; i < count; i++) {
+            const inscriptionId: string = calldata.readStringWithLength();
+            const burner: Address = calldata.readAddress();
+            this.migrateLegacyRecord(inscriptionId, burner);
+        }
+    }
+
+    /**
+     * Moves one pre-canonical-key record to its sha256 outpoint key.
+     * Reverts if the supplied burner does not match the stored legacy hash,
+     * so update calldata cannot reassign a burn to another address.
+     */
+    private migrateLegacyRecord(inscriptionId: string, burner: Address): void {
+        const legacyKey: u256 = this.legacyFnvHash(inscriptionId);
+        const key: u256 = this.inscriptionKey(inscriptionId);
+
+        const legacyBurner: u256 = this._verifiedBurns.get(legacyKey);
+        if (!u256.eq(legacyBurner, u256.Zero)) {
+            if (!u256.eq(legacyBurner, this.legacyFnvHash(burner.toHex()))) {
+                throw new Revert('OrdinalsVault: burner does not match legacy record');
+            }
+            this._verifiedBurns.set(key, this._u256FromAddress(burner));
+            this._burnBlockHeights.set(key, this._burnBlockHeights.get(legacyKey));
+            this._verifiedBurns.delete(legacyKey);
+            this._burnBlockHeights.delete(legacyKey);
+        }
+
+        const legacyMinted: u256 = this._mintedInscriptions.get(legacyKey);
+        if (!u256.eq(legacyMinted, u256.Zero)) {
+            this._mintedInscriptions.set(key, legacyMinted);
+            this._mintedInscriptions.delete(legacyKey);
         }
-        return u256.fromU64(h);
     }
 
     /**
-     * FNV-1a u64 hash of an address's hex string, returned as u256.
-     * Used to store and compare burner addresses without direct address iteration.
+     * FNV-1a u64 hash of a string's UTF-8 bytes, returned as u256.
+     * Legacy storage key scheme — only used to locate records during migration.
      */
-    private hashAddress(addr: Address): u256 {
-        const bytes: Uint8Array = Uint8Array.wrap(String.UTF8.encode(addr.toHex()));
+    private legacyFnvHash(s: string): u256 {
+        const bytes: Uint8Array = Uint8Array.wrap(String.UTF8.encode(s));
         let h: u64 = 14695981039346656037;
         for (let i: i32 = 0; i < bytes.length; i++) {
             h ^= u64(bytes[i]);
@@ -0,0 +1,22 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+import { U256_BYTE_LENGTH } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted when the collection allowlist root is committed. The root is
+ * frozen from then on.
+ *
+ * Data layout:
+ * - 32 bytes: root (u256)
+ */
+@final
+export class AllowlistRootSetEvent extends NetEvent {
+    constructor(root: u256) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH);
+
+        data.writeU256(root);
+
+        super('AllowlistRootSet', data);
+    }
+}
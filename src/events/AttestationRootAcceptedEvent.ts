@@ -0,0 +1,28 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+import { U256_BYTE_LENGTH, U64_BYTE_LENGTH } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted when an oracle-signed Merkle root of burns is accepted.
+ * Burns under the root can be claimed with recordBurnWithProof until `deadline`.
+ *
+ * Data layout:
+ * - 32 bytes: root (u256)
+ * - 8 bytes: fromBlock (u64) — first Bitcoin block covered by the root
+ * - 8 bytes: toBlock (u64) — last Bitcoin block covered by the root
+ * - 8 bytes: deadline (u64) — last OPNet block at which claims are accepted
+ */
+@final
+export class AttestationRootAcceptedEvent extends NetEvent {
+    constructor(root: u256, fromBlock: u64, toBlock: u64, deadline: u64) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + U64_BYTE_LENGTH * 3);
+
+        data.writeU256(root);
+        data.writeU64(fromBlock);
+        data.writeU64(toBlock);
+        data.writeU64(deadline);
+
+        super('AttestationRootAccepted', data);
+    }
+}
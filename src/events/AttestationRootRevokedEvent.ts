@@ -0,0 +1,24 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+import { U256_BYTE_LENGTH, U64_BYTE_LENGTH } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted when an accepted attestation root is withdrawn.
+ * Burns already recorded from it are kept; no new claims are accepted.
+ *
+ * Data layout:
+ * - 32 bytes: root (u256)
+ * - 8 bytes: revokedBlock (u64)
+ */
+@final
+export class AttestationRootRevokedEvent extends NetEvent {
+    constructor(root: u256, revokedBlock: u64) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + U64_BYTE_LENGTH);
+
+        data.writeU256(root);
+        data.writeU64(revokedBlock);
+
+        super('AttestationRootRevoked', data);
+    }
+}
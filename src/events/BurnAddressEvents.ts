@@ -0,0 +1,77 @@
+import { BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+import { BOOLEAN_BYTE_LENGTH, U64_BYTE_LENGTH } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted when adding or retiring a burn address is proposed and its timelock starts.
+ *
+ * Data layout:
+ * - 4 + N bytes: burnAddress (u32 length + UTF-8 bytes)
+ * - 1 byte: add (bool, false = retire)
+ * - 8 bytes: submitBlock (u64)
+ * - 8 bytes: effectiveBlock (u64) — first block at which the change can be applied
+ */
+@final
+export class BurnAddressChangeProposedEvent extends NetEvent {
+    constructor(burnAddress: string, add: bool, submitBlock: u64, effectiveBlock: u64) {
+        const data: BytesWriter = new BytesWriter(
+            4 + String.UTF8.byteLength(burnAddress) + BOOLEAN_BYTE_LENGTH + U64_BYTE_LENGTH * 2,
+        );
+        data.writeStringWithLength(burnAddress);
+        data.writeBoolean(add);
+        data.writeU64(submitBlock);
+        data.writeU64(effectiveBlock);
+
+        super('BurnAddressChangeProposed', data);
+    }
+}
+
+/**
+ * Event emitted when a burn address starts being accepted.
+ *
+ * Data layout:
+ * - 4 + N bytes: burnAddress (u32 length + UTF-8 bytes)
+ */
+@final
+export class BurnAddressAddedEvent extends NetEvent {
+    constructor(burnAddress: string) {
+        const data: BytesWriter = new BytesWriter(4 + String.UTF8.byteLength(burnAddress));
+        data.writeStringWithLength(burnAddress);
+
+        super('BurnAddressAdded', data);
+    }
+}
+
+/**
+ * Event emitted when a burn address stops being accepted.
+ *
+ * Data layout:
+ * - 4 + N bytes: burnAddress (u32 length + UTF-8 bytes)
+ */
+@final
+export class BurnAddressRetiredEvent extends NetEvent {
+    constructor(burnAddress: string) {
+        const data: BytesWriter = new BytesWriter(4 + String.UTF8.byteLength(burnAddress));
+        data.writeStringWithLength(burnAddress);
+
+        super('BurnAddressRetired', data);
+    }
+}
+
+/**
+ * Event emitted when a pending burn address change is cancelled.
+ *
+ * Data layout:
+ * - 4 + N bytes: burnAddress (u32 length + UTF-8 bytes)
+ * - 8 bytes: cancelledAtBlock (u64)
+ */
+@final
+export class BurnAddressChangeCancelledEvent extends NetEvent {
+    constructor(burnAddress: string, cancelledAtBlock: u64) {
+        const data: BytesWriter = new BytesWriter(4 + String.UTF8.byteLength(burnAddress) + U64_BYTE_LENGTH);
+        data.writeStringWithLength(burnAddress);
+        data.writeU64(cancelledAtBlock);
+
+        super('BurnAddressChangeCancelled', data);
+    }
+}
@@ -0,0 +1,34 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { Address, BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+import { ADDRESS_BYTE_LENGTH, U256_BYTE_LENGTH, U64_BYTE_LENGTH } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted when an oracle-attested Ordinals burn is recorded.
+ *
+ * Data layout:
+ * - 4 bytes: inscriptionId UTF-8 byte length (u32)
+ * - N bytes: inscriptionId UTF-8 bytes
+ * - 32 bytes: burner (address)
+ * - 32 bytes: nonce (u256)
+ * - 32 bytes: collectionIdHash (u256)
+ * - 8 bytes: blockNumber (u64) — OPNet block the burn was recorded in
+ */
+@final
+export class BurnRecordedEvent extends NetEvent {
+    constructor(inscriptionId: string, burner: Address, nonce: u256, collectionIdHash: u256, blockNumber: u64) {
+        // inscriptionId is ASCII (hex + "i" + index), so length == UTF-8 byte count
+        const strByteLen: i32 = inscriptionId.length;
+        const data: BytesWriter = new BytesWriter(
+            4 + strByteLen + ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH * 2 + U64_BYTE_LENGTH,
+        );
+
+        data.writeStringWithLength(inscriptionId);
+        data.writeAddress(burner);
+        data.writeU256(nonce);
+        data.writeU256(collectionIdHash);
+        data.writeU64(blockNumber);
+
+        super('BurnRecorded', data);
+    }
+}
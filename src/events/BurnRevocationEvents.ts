@@ -0,0 +1,46 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { Address, BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+import { ADDRESS_BYTE_LENGTH, U256_BYTE_LENGTH, U64_BYTE_LENGTH } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted when the admin changes the challenge period.
+ *
+ * Data layout:
+ * - 8 bytes: challengePeriod (u64, blocks a recorded burn stays revocable)
+ */
+@final
+export class ChallengePeriodUpdatedEvent extends NetEvent {
+    constructor(challengePeriod: u64) {
+        const data: BytesWriter = new BytesWriter(U64_BYTE_LENGTH);
+        data.writeU64(challengePeriod);
+
+        super('ChallengePeriodUpdated', data);
+    }
+}
+
+/**
+ * Event emitted when a recorded burn is revoked during its challenge period.
+ *
+ * Data layout:
+ * - 4 bytes: inscriptionId UTF-8 byte length (u32)
+ * - N bytes: inscriptionId UTF-8 bytes
+ * - 32 bytes: burner (address)
+ * - 32 bytes: nonce (u256, the revoked attestation's nonce)
+ * - 1 byte: byGuardian (bool, false for an oracle-signed revocation)
+ */
+@final
+export class BurnRevokedEvent extends NetEvent {
+    constructor(inscriptionId: string, burner: Address, nonce: u256, byGuardian: bool) {
+        // inscriptionId is ASCII (hex + "i" + index), so length == UTF-8 byte count
+        const data: BytesWriter = new BytesWriter(
+            4 + inscriptionId.length + ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH + 1,
+        );
+        data.writeStringWithLength(inscriptionId);
+        data.writeAddress(burner);
+        data.writeU256(nonce);
+        data.writeBoolean(byGuardian);
+
+        super('BurnRevoked', data);
+    }
+}
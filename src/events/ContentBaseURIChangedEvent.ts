@@ -0,0 +1,25 @@
+import { BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted when the inscription content renderer behind every token's
+ * image and animation_url changes.
+ *
+ * Data layout:
+ * - 4 bytes: previousURI UTF-8 byte length (u32)
+ * - N bytes: previousURI UTF-8 bytes
+ * - 4 bytes: newURI UTF-8 byte length (u32)
+ * - M bytes: newURI UTF-8 bytes
+ */
+@final
+export class ContentBaseURIChangedEvent extends NetEvent {
+    constructor(previousURI: string, newURI: string) {
+        const data: BytesWriter = new BytesWriter(
+            4 + String.UTF8.byteLength(previousURI) + 4 + String.UTF8.byteLength(newURI),
+        );
+        data.writeStringWithLength(previousURI);
+        data.writeStringWithLength(newURI);
+
+        super('ContentBaseURIChanged', data);
+    }
+}
@@ -0,0 +1,87 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { Address, BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+import {
+    ADDRESS_BYTE_LENGTH,
+    BOOLEAN_BYTE_LENGTH,
+    U256_BYTE_LENGTH,
+    U64_BYTE_LENGTH,
+} from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted when a bridge fee change is proposed and its timelock starts.
+ *
+ * Data layout:
+ * - 32 bytes: token (address, OP20 the fee is paid in)
+ * - 32 bytes: amount (u256, 0 = no fee)
+ * - 32 bytes: recipient (address)
+ * - 8 bytes: submitBlock (u64)
+ * - 8 bytes: effectiveBlock (u64) — first block at which the change can be applied
+ */
+@final
+export class FeeConfigProposedEvent extends NetEvent {
+    constructor(token: Address, amount: u256, recipient: Address, submitBlock: u64, effectiveBlock: u64) {
+        const data: BytesWriter = new BytesWriter(ADDRESS_BYTE_LENGTH * 2 + U256_BYTE_LENGTH + U64_BYTE_LENGTH * 2);
+        data.writeAddress(token);
+        data.writeU256(amount);
+        data.writeAddress(recipient);
+        data.writeU64(submitBlock);
+        data.writeU64(effectiveBlock);
+
+        super('FeeConfigProposed', data);
+    }
+}
+
+/**
+ * Event emitted when a proposed bridge fee takes effect.
+ *
+ * Data layout:
+ * - 32 bytes: token (address)
+ * - 32 bytes: amount (u256, 0 = no fee)
+ * - 32 bytes: recipient (address)
+ */
+@final
+export class FeeConfigAppliedEvent extends NetEvent {
+    constructor(token: Address, amount: u256, recipient: Address) {
+        const data: BytesWriter = new BytesWriter(ADDRESS_BYTE_LENGTH * 2 + U256_BYTE_LENGTH);
+        data.writeAddress(token);
+        data.writeU256(amount);
+        data.writeAddress(recipient);
+
+        super('FeeConfigApplied', data);
+    }
+}
+
+/**
+ * Event emitted when a pending bridge fee change is cancelled.
+ *
+ * Data layout:
+ * - 8 bytes: blockNumber (u64)
+ */
+@final
+export class FeeConfigCancelledEvent extends NetEvent {
+    constructor(blockNumber: u64) {
+        const data: BytesWriter = new BytesWriter(U64_BYTE_LENGTH);
+        data.writeU64(blockNumber);
+
+        super('FeeConfigCancelled', data);
+    }
+}
+
+/**
+ * Event emitted when an address is added to or removed from the fee exemption list.
+ *
+ * Data layout:
+ * - 32 bytes: account (address)
+ * - 1 byte: exempt (bool)
+ */
+@final
+export class FeeExemptionChangedEvent extends NetEvent {
+    constructor(account: Address, exempt: bool) {
+        const data: BytesWriter = new BytesWriter(ADDRESS_BYTE_LENGTH + BOOLEAN_BYTE_LENGTH);
+        data.writeAddress(account);
+        data.writeBoolean(exempt);
+
+        super('FeeExemptionChanged', data);
+    }
+}
@@ -0,0 +1,88 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { Address, BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+import { ADDRESS_BYTE_LENGTH, U256_BYTE_LENGTH, U64_BYTE_LENGTH } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted when the admin changes the mint budget.
+ *
+ * Data layout:
+ * - 4 bytes: maxBurns (u32, 0 = unlimited)
+ * - 8 bytes: period (u64, blocks per budget window)
+ */
+@final
+export class MintBudgetUpdatedEvent extends NetEvent {
+    constructor(maxBurns: u32, period: u64) {
+        const data: BytesWriter = new BytesWriter(4 + U64_BYTE_LENGTH);
+        data.writeU32(maxBurns);
+        data.writeU64(period);
+
+        super('MintBudgetUpdated', data);
+    }
+}
+
+/**
+ * Event emitted when an attested burn exceeds the mint budget and is held
+ * for review instead of being recorded.
+ *
+ * Data layout:
+ * - 4 bytes: inscriptionId UTF-8 byte length (u32)
+ * - N bytes: inscriptionId UTF-8 bytes
+ * - 32 bytes: burner (address)
+ * - 32 bytes: nonce (u256)
+ * - 8 bytes: blockNumber (u64) — OPNet block the burn was queued in
+ */
+@final
+export class BurnQueuedForReviewEvent extends NetEvent {
+    constructor(inscriptionId: string, burner: Address, nonce: u256, blockNumber: u64) {
+        // inscriptionId is ASCII (hex + "i" + index), so length == UTF-8 byte count
+        const data: BytesWriter = new BytesWriter(
+            4 + inscriptionId.length + ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH + U64_BYTE_LENGTH,
+        );
+        data.writeStringWithLength(inscriptionId);
+        data.writeAddress(burner);
+        data.writeU256(nonce);
+        data.writeU64(blockNumber);
+
+        super('BurnQueuedForReview', data);
+    }
+}
+
+/**
+ * Event emitted when the admin releases a burn held for review; the burner
+ * can mint from the next block.
+ *
+ * Data layout:
+ * - 4 bytes: inscriptionId UTF-8 byte length (u32)
+ * - N bytes: inscriptionId UTF-8 bytes
+ * - 32 bytes: burner (address)
+ */
+@final
+export class PendingBurnReleasedEvent extends NetEvent {
+    constructor(inscriptionId: string, burner: Address) {
+        const data: BytesWriter = new BytesWriter(4 + inscriptionId.length + ADDRESS_BYTE_LENGTH);
+        data.writeStringWithLength(inscriptionId);
+        data.writeAddress(burner);
+
+        super('PendingBurnReleased', data);
+    }
+}
+
+/**
+ * Event emitted when the admin rejects a burn held for review.
+ *
+ * Data layout:
+ * - 4 bytes: inscriptionId UTF-8 byte length (u32)
+ * - N bytes: inscriptionId UTF-8 bytes
+ * - 32 bytes: burner (address)
+ */
+@final
+export class PendingBurnRejectedEvent extends NetEvent {
+    constructor(inscriptionId: string, burner: Address) {
+        const data: BytesWriter = new BytesWriter(4 + inscriptionId.length + ADDRESS_BYTE_LENGTH);
+        data.writeStringWithLength(inscriptionId);
+        data.writeAddress(burner);
+
+        super('PendingBurnRejected', data);
+    }
+}
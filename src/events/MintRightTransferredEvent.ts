@@ -0,0 +1,26 @@
+import { Address, BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+import { ADDRESS_BYTE_LENGTH } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted when the recorded burner hands the unclaimed mint right of
+ * an inscription to another address.
+ *
+ * Data layout:
+ * - 4 bytes: inscriptionId UTF-8 byte length (u32)
+ * - N bytes: inscriptionId UTF-8 bytes
+ * - 32 bytes: previousBurner (address)
+ * - 32 bytes: newBurner (address)
+ */
+@final
+export class MintRightTransferredEvent extends NetEvent {
+    constructor(inscriptionId: string, previousBurner: Address, newBurner: Address) {
+        // inscriptionId is ASCII (hex + "i" + index), so length == UTF-8 byte count
+        const data: BytesWriter = new BytesWriter(4 + inscriptionId.length + ADDRESS_BYTE_LENGTH * 2);
+        data.writeStringWithLength(inscriptionId);
+        data.writeAddress(previousBurner);
+        data.writeAddress(newBurner);
+
+        super('MintRightTransferred', data);
+    }
+}
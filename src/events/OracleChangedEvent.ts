@@ -0,0 +1,23 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+import { U256_BYTE_LENGTH } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted whenever the set of accepted oracle keys changes.
+ *
+ * Data layout:
+ * - 32 bytes: oldKeyHash (u256, zero when an oracle is added)
+ * - 32 bytes: newKeyHash (u256, zero when an oracle is removed)
+ */
+@final
+export class OracleChangedEvent extends NetEvent {
+    constructor(oldKeyHash: u256, newKeyHash: u256) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH * 2);
+
+        data.writeU256(oldKeyHash);
+        data.writeU256(newKeyHash);
+
+        super('OracleChanged', data);
+    }
+}
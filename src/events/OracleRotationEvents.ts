@@ -0,0 +1,68 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+import { U256_BYTE_LENGTH, U64_BYTE_LENGTH } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted when an oracle key rotation is proposed and its timelock starts.
+ *
+ * Data layout:
+ * - 32 bytes: oldKeyHash (u256, zero when adding a new oracle)
+ * - 32 bytes: newKeyHash (u256)
+ * - 8 bytes: submitBlock (u64)
+ * - 8 bytes: effectiveBlock (u64) — first block at which the rotation can be applied
+ */
+@final
+export class OracleRotationProposedEvent extends NetEvent {
+    constructor(oldKeyHash: u256, newKeyHash: u256, submitBlock: u64, effectiveBlock: u64) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH * 2 + U64_BYTE_LENGTH * 2);
+        data.writeU256(oldKeyHash);
+        data.writeU256(newKeyHash);
+        data.writeU64(submitBlock);
+        data.writeU64(effectiveBlock);
+
+        super('OracleRotationProposed', data);
+    }
+}
+
+/**
+ * Event emitted when a pending oracle key rotation is applied.
+ *
+ * Data layout:
+ * - 32 bytes: oldKeyHash (u256, zero when adding a new oracle)
+ * - 32 bytes: newKeyHash (u256)
+ * - 8 bytes: appliedAtBlock (u64)
+ * - 8 bytes: graceEndBlock (u64) — last block at which the old key is still accepted
+ */
+@final
+export class OracleRotationAppliedEvent extends NetEvent {
+    constructor(oldKeyHash: u256, newKeyHash: u256, appliedAtBlock: u64, graceEndBlock: u64) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH * 2 + U64_BYTE_LENGTH * 2);
+        data.writeU256(oldKeyHash);
+        data.writeU256(newKeyHash);
+        data.writeU64(appliedAtBlock);
+        data.writeU64(graceEndBlock);
+
+        super('OracleRotationApplied', data);
+    }
+}
+
+/**
+ * Event emitted when a pending oracle key rotation is cancelled.
+ *
+ * Data layout:
+ * - 32 bytes: oldKeyHash (u256)
+ * - 32 bytes: newKeyHash (u256)
+ * - 8 bytes: cancelledAtBlock (u64)
+ */
+@final
+export class OracleRotationCancelledEvent extends NetEvent {
+    constructor(oldKeyHash: u256, newKeyHash: u256, cancelledAtBlock: u64) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH * 2 + U64_BYTE_LENGTH);
+        data.writeU256(oldKeyHash);
+        data.writeU256(newKeyHash);
+        data.writeU64(cancelledAtBlock);
+
+        super('OracleRotationCancelled', data);
+    }
+}
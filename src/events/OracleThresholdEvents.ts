@@ -0,0 +1,58 @@
+import { BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+import { U64_BYTE_LENGTH } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted when an oracle threshold decrease is proposed and its timelock starts.
+ *
+ * Data layout:
+ * - 4 bytes: threshold (u32, proposed threshold)
+ * - 8 bytes: submitBlock (u64)
+ * - 8 bytes: effectiveBlock (u64) — first block at which the decrease can be applied
+ */
+@final
+export class OracleThresholdProposedEvent extends NetEvent {
+    constructor(threshold: u32, submitBlock: u64, effectiveBlock: u64) {
+        const data: BytesWriter = new BytesWriter(4 + U64_BYTE_LENGTH * 2);
+        data.writeU32(threshold);
+        data.writeU64(submitBlock);
+        data.writeU64(effectiveBlock);
+
+        super('OracleThresholdProposed', data);
+    }
+}
+
+/**
+ * Event emitted when the oracle threshold changes: immediately for an
+ * increase, after the timelock for a decrease.
+ *
+ * Data layout:
+ * - 4 bytes: previousThreshold (u32)
+ * - 4 bytes: threshold (u32)
+ */
+@final
+export class OracleThresholdChangedEvent extends NetEvent {
+    constructor(previousThreshold: u32, threshold: u32) {
+        const data: BytesWriter = new BytesWriter(4 + 4);
+        data.writeU32(previousThreshold);
+        data.writeU32(threshold);
+
+        super('OracleThresholdChanged', data);
+    }
+}
+
+/**
+ * Event emitted when a pending oracle threshold decrease is cancelled.
+ *
+ * Data layout:
+ * - 4 bytes: threshold (u32, the cancelled proposal)
+ */
+@final
+export class OracleThresholdCancelledEvent extends NetEvent {
+    constructor(threshold: u32) {
+        const data: BytesWriter = new BytesWriter(4);
+        data.writeU32(threshold);
+
+        super('OracleThresholdCancelled', data);
+    }
+}
@@ -0,0 +1,59 @@
+import { Address, BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+import { ADDRESS_BYTE_LENGTH, U64_BYTE_LENGTH } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted when the admin appoints or removes the pause guardian.
+ *
+ * Data layout:
+ * - 32 bytes: previousGuardian (address, zero if none)
+ * - 32 bytes: newGuardian (address, zero to remove)
+ */
+@final
+export class GuardianChangedEvent extends NetEvent {
+    constructor(previousGuardian: Address, newGuardian: Address) {
+        const data: BytesWriter = new BytesWriter(ADDRESS_BYTE_LENGTH * 2);
+        data.writeAddress(previousGuardian);
+        data.writeAddress(newGuardian);
+
+        super('GuardianChanged', data);
+    }
+}
+
+/**
+ * Event emitted when the guardian pauses part of the bridge.
+ *
+ * Data layout:
+ * - 1 byte: flags (u8, PAUSE_* bits paused by this call)
+ * - 1 byte: pausedFlags (u8, every PAUSE_* bit now paused)
+ * - 8 bytes: unpauseBlock (u64) — first block at which the admin may unpause
+ */
+@final
+export class PausedEvent extends NetEvent {
+    constructor(flags: u8, pausedFlags: u8, unpauseBlock: u64) {
+        const data: BytesWriter = new BytesWriter(2 + U64_BYTE_LENGTH);
+        data.writeU8(flags);
+        data.writeU8(pausedFlags);
+        data.writeU64(unpauseBlock);
+
+        super('Paused', data);
+    }
+}
+
+/**
+ * Event emitted when the admin lifts a pause.
+ *
+ * Data layout:
+ * - 1 byte: flags (u8, PAUSE_* bits lifted by this call)
+ * - 1 byte: pausedFlags (u8, PAUSE_* bits still paused)
+ */
+@final
+export class UnpausedEvent extends NetEvent {
+    constructor(flags: u8, pausedFlags: u8) {
+        const data: BytesWriter = new BytesWriter(2);
+        data.writeU8(flags);
+        data.writeU8(pausedFlags);
+
+        super('Unpaused', data);
+    }
+}
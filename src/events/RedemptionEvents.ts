@@ -0,0 +1,81 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { Address, BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+import { ADDRESS_BYTE_LENGTH, U256_BYTE_LENGTH, U64_BYTE_LENGTH } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted when a holder burns a custody-mode token to get the inscription back.
+ * The oracle watches for this event and releases the inscription to `btcDestination`.
+ *
+ * Data layout:
+ * - 32 bytes: tokenId (u256)
+ * - 4 + N bytes: inscriptionId (u32 length + UTF-8 bytes)
+ * - 32 bytes: requester (address)
+ * - 4 + N bytes: btcDestination (u32 length + UTF-8 bytes)
+ * - 8 bytes: deadlineBlock (u64) — after this block the redemption can be disputed
+ */
+@final
+export class RedemptionRequestedEvent extends NetEvent {
+    constructor(
+        tokenId: u256,
+        inscriptionId: string,
+        requester: Address,
+        btcDestination: string,
+        deadlineBlock: u64,
+    ) {
+        const data: BytesWriter = new BytesWriter(
+            U256_BYTE_LENGTH +
+                4 +
+                String.UTF8.byteLength(inscriptionId) +
+                ADDRESS_BYTE_LENGTH +
+                4 +
+                String.UTF8.byteLength(btcDestination) +
+                U64_BYTE_LENGTH,
+        );
+        data.writeU256(tokenId);
+        data.writeStringWithLength(inscriptionId);
+        data.writeAddress(requester);
+        data.writeStringWithLength(btcDestination);
+        data.writeU64(deadlineBlock);
+
+        super('RedemptionRequested', data);
+    }
+}
+
+/**
+ * Event emitted when the oracle's release confirmation is accepted.
+ *
+ * Data layout:
+ * - 32 bytes: tokenId (u256)
+ * - 32 bytes: releaseTxid (u256, Bitcoin txid that sent the inscription out of custody)
+ */
+@final
+export class RedemptionCompletedEvent extends NetEvent {
+    constructor(tokenId: u256, releaseTxid: u256) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH * 2);
+        data.writeU256(tokenId);
+        data.writeU256(releaseTxid);
+
+        super('RedemptionCompleted', data);
+    }
+}
+
+/**
+ * Event emitted when a redemption passes its deadline without a release confirmation.
+ *
+ * Data layout:
+ * - 32 bytes: tokenId (u256)
+ * - 32 bytes: requester (address)
+ * - 8 bytes: disputedAtBlock (u64)
+ */
+@final
+export class RedemptionDisputedEvent extends NetEvent {
+    constructor(tokenId: u256, requester: Address, disputedAtBlock: u64) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + ADDRESS_BYTE_LENGTH + U64_BYTE_LENGTH);
+        data.writeU256(tokenId);
+        data.writeAddress(requester);
+        data.writeU64(disputedAtBlock);
+
+        super('RedemptionDisputed', data);
+    }
+}
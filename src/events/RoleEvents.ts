@@ -0,0 +1,79 @@
+import { Address, BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+import { ADDRESS_BYTE_LENGTH } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted when the admin grants a role.
+ *
+ * Data layout:
+ * - 1 byte: role (u8, ROLE_* bit)
+ * - 32 bytes: account (address)
+ * - 32 bytes: sender (address, the admin)
+ */
+@final
+export class RoleGrantedEvent extends NetEvent {
+    constructor(role: u8, account: Address, sender: Address) {
+        const data: BytesWriter = new BytesWriter(1 + ADDRESS_BYTE_LENGTH * 2);
+        data.writeU8(role);
+        data.writeAddress(account);
+        data.writeAddress(sender);
+
+        super('RoleGranted', data);
+    }
+}
+
+/**
+ * Event emitted when the admin revokes a role.
+ *
+ * Data layout:
+ * - 1 byte: role (u8, ROLE_* bit)
+ * - 32 bytes: account (address)
+ * - 32 bytes: sender (address, the admin)
+ */
+@final
+export class RoleRevokedEvent extends NetEvent {
+    constructor(role: u8, account: Address, sender: Address) {
+        const data: BytesWriter = new BytesWriter(1 + ADDRESS_BYTE_LENGTH * 2);
+        data.writeU8(role);
+        data.writeAddress(account);
+        data.writeAddress(sender);
+
+        super('RoleRevoked', data);
+    }
+}
+
+/**
+ * Event emitted when the admin proposes a successor (zero address = proposal withdrawn).
+ *
+ * Data layout:
+ * - 32 bytes: currentAdmin (address)
+ * - 32 bytes: pendingAdmin (address)
+ */
+@final
+export class AdminTransferStartedEvent extends NetEvent {
+    constructor(currentAdmin: Address, pendingAdmin: Address) {
+        const data: BytesWriter = new BytesWriter(ADDRESS_BYTE_LENGTH * 2);
+        data.writeAddress(currentAdmin);
+        data.writeAddress(pendingAdmin);
+
+        super('AdminTransferStarted', data);
+    }
+}
+
+/**
+ * Event emitted when the proposed admin accepts the role.
+ *
+ * Data layout:
+ * - 32 bytes: previousAdmin (address)
+ * - 32 bytes: newAdmin (address)
+ */
+@final
+export class AdminTransferredEvent extends NetEvent {
+    constructor(previousAdmin: Address, newAdmin: Address) {
+        const data: BytesWriter = new BytesWriter(ADDRESS_BYTE_LENGTH * 2);
+        data.writeAddress(previousAdmin);
+        data.writeAddress(newAdmin);
+
+        super('AdminTransferred', data);
+    }
+}
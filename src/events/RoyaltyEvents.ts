@@ -0,0 +1,42 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { Address, BytesWriter } from '@btc-vision/btc-runtime/runtime';
+import { NetEvent } from '@btc-vision/btc-runtime/runtime';
+import { ADDRESS_BYTE_LENGTH, U256_BYTE_LENGTH } from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Event emitted when the collection's default royalty changes.
+ *
+ * Data layout:
+ * - 32 bytes: receiver (address, zero = no default royalty)
+ * - 2 bytes: basisPoints (u16, out of 10000)
+ */
+@final
+export class DefaultRoyaltyChangedEvent extends NetEvent {
+    constructor(receiver: Address, basisPoints: u16) {
+        const data: BytesWriter = new BytesWriter(ADDRESS_BYTE_LENGTH + 2);
+        data.writeAddress(receiver);
+        data.writeU16(basisPoints);
+
+        super('DefaultRoyaltyChanged', data);
+    }
+}
+
+/**
+ * Event emitted when a token's royalty override is set or cleared.
+ *
+ * Data layout:
+ * - 32 bytes: tokenId (u256)
+ * - 32 bytes: receiver (address, zero = override cleared, default applies)
+ * - 2 bytes: basisPoints (u16, out of 10000)
+ */
+@final
+export class TokenRoyaltyChangedEvent extends NetEvent {
+    constructor(tokenId: u256, receiver: Address, basisPoints: u16) {
+        const data: BytesWriter = new BytesWriter(U256_BYTE_LENGTH + ADDRESS_BYTE_LENGTH + 2);
+        data.writeU256(tokenId);
+        data.writeAddress(receiver);
+        data.writeU16(basisPoints);
+
+        super('TokenRoyaltyChanged', data);
+    }
+}
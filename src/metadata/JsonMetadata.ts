@@ -0,0 +1,53 @@
+const BASE64_ALPHABET: string = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const HEX_DIGITS: string = '0123456789abcdef';
+
+/**
+ * Quotes and escapes a string for use as a JSON value. Escapes quotes,
+ * backslashes and control characters, so values taken from calldata or
+ * attestations cannot break out of the document.
+ */
+export function jsonString(value: string): string {
+    let out: string = '"';
+    for (let i: i32 = 0; i < value.length; i++) {
+        const c: i32 = value.charCodeAt(i);
+        if (c == 0x22) {
+            out += '\\"';
+        } else if (c == 0x5c) {
+            out += '\\\\';
+        } else if (c < 0x20) {
+            out += '\\u00' + HEX_DIGITS.charAt(c >> 4) + HEX_DIGITS.charAt(c & 0xf);
+        } else {
+            out += String.fromCharCode(c);
+        }
+    }
+    return out + '"';
+}
+
+/** One `{"trait_type": …, "value": …}` entry; `value` must already be JSON */
+export function jsonAttribute(traitType: string, value: string): string {
+    return '{"trait_type":' + jsonString(traitType) + ',"value":' + value + '}';
+}
+
+/** Wraps a JSON document in a `data:application/json;base64,` URI */
+export function jsonDataURI(json: string): string {
+    return 'data:application/json;base64,' + base64(Uint8Array.wrap(String.UTF8.encode(json)));
+}
+
+/** Standard base64 (RFC 4648) with padding */
+function base64(bytes: Uint8Array): string {
+    const len: i32 = bytes.length;
+    const out: Uint8Array = new Uint8Array(((len + 2) / 3) * 4);
+    let o: i32 = 0;
+    for (let i: i32 = 0; i < len; i += 3) {
+        const b0: u32 = bytes[i];
+        const b1: u32 = i + 1 < len ? bytes[i + 1] : 0;
+        const b2: u32 = i + 2 < len ? bytes[i + 2] : 0;
+        const triple: u32 = (b0 << 16) | (b1 << 8) | b2;
+
+        out[o++] = <u8>BASE64_ALPHABET.charCodeAt((triple >> 18) & 0x3f);
+        out[o++] = <u8>BASE64_ALPHABET.charCodeAt((triple >> 12) & 0x3f);
+        out[o++] = i + 1 < len ? <u8>BASE64_ALPHABET.charCodeAt((triple >> 6) & 0x3f) : 0x3d; // '='
+        out[o++] = i + 2 < len ? <u8>BASE64_ALPHABET.charCodeAt(triple & 0x3f) : 0x3d;
+    }
+    return String.UTF8.decode(out.buffer);
+}